@@ -1,46 +1,155 @@
-// Vercel Serverless Function for OpenRouter API proxy
+// Vercel Serverless Function for OpenRouter API proxy and render jobs
+import { waitUntil } from '@vercel/functions';
+import { kv } from '@vercel/kv';
+
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const JOB_TTL_SECONDS = 60 * 60; // Jobs expire after an hour
+// Matches maxDuration in vercel.json; a job older than this was cut off with its function
+const JOB_MAX_RUNTIME_MS = 180 * 1000;
 
-export default async function handler(req, res) {
-  // Only allow POST
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+// In-memory job store for the dev server only
+const devStore = new Map();
+
+// Polls can land on another instance, so deployed jobs must live in Vercel KV
+function openJobStore() {
+  if (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN) {
+    return {
+      getJob: (id) => kv.get(`job:${id}`),
+      setJob: (job) => kv.set(`job:${job.id}`, job, { ex: JOB_TTL_SECONDS })
+    };
   }
 
-  const apiKey = process.env.OPENROUTER_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'API key not configured' });
+  if (process.env.VERCEL) {
+    throw new Error('Vercel KV is not configured (KV_REST_API_URL, KV_REST_API_TOKEN)');
   }
 
+  return {
+    getJob: async (id) => devStore.get(id) || null,
+    setJob: async (job) => {
+      devStore.set(job.id, job);
+    }
+  };
+}
+
+// Reports a job that is still queued or generating after its function was stopped as failed
+function withStaleCheck(job) {
+  const running = job.status === 'queued' || job.status === 'generating';
+  if (!running || Date.now() - job.createdAt <= JOB_MAX_RUNTIME_MS) return job;
+
+  return { ...job, status: 'error', error: 'Render job stopped before it finished' };
+}
+
+// Calls OpenRouter and returns { ok, status, data } or { ok, status, error }
+async function callOpenRouter(apiKey, model, messages, referer) {
+  const response = await fetch(OPENROUTER_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': referer || 'https://casacraft.vercel.app',
+      'X-Title': 'Beautiful Room'
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      max_tokens: 4096
+    })
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    return { ok: false, status: response.status, error: `OpenRouter API error: ${error}` };
+  }
+
+  return { ok: true, status: 200, data: await response.json() };
+}
+
+// Runs a queued job to completion, recording each state change
+async function processJob(jobs, job, apiKey, model, messages, referer) {
+  await jobs.setJob({ ...job, status: 'generating', updatedAt: Date.now() });
+
   try {
-    const { model, messages } = req.body;
+    const result = await callOpenRouter(apiKey, model, messages, referer);
+
+    if (result.ok) {
+      await jobs.setJob({ ...job, status: 'done', result: result.data, updatedAt: Date.now() });
+    } else {
+      await jobs.setJob({ ...job, status: 'error', error: result.error, updatedAt: Date.now() });
+    }
+  } catch (error) {
+    console.error('Job error:', error);
+    await jobs.setJob({
+      ...job,
+      status: 'error',
+      error: error.message || 'Internal server error',
+      updatedAt: Date.now()
+    });
+  }
+}
+
+export default async function handler(req, res) {
+  try {
+    const jobs = openJobStore();
+
+    // GET - Poll job status
+    if (req.method === 'GET') {
+      const jobId = req.query.jobId;
+
+      if (!jobId) {
+        return res.status(400).json({ error: 'Missing job ID' });
+      }
+
+      const job = await jobs.getJob(jobId);
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      return res.status(200).json(withStaleCheck(job));
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (!apiKey) {
+      return res.status(500).json({ error: 'API key not configured' });
+    }
+
+    const { model, messages, async: runAsJob } = req.body;
 
     if (!model || !messages) {
       return res.status(400).json({ error: 'Missing model or messages' });
     }
 
-    const response = await fetch(OPENROUTER_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': req.headers.referer || 'https://casacraft.vercel.app',
-        'X-Title': 'Beautiful Room'
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        max_tokens: 4096
-      })
-    });
+    // POST { async: true } - Start a job and return its id for polling
+    if (runAsJob) {
+      const now = Date.now();
+      const job = {
+        id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 11)}`,
+        status: 'queued',
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await jobs.setJob(job);
+
+      // Keep the function alive until the job finishes; outside Vercel this is a
+      // no-op and the dev server keeps running the promise on its own
+      waitUntil(processJob(jobs, job, apiKey, model, messages, req.headers.referer));
+
+      return res.status(202).json({ jobId: job.id, status: job.status });
+    }
+
+    // POST - Synchronous proxy
+    const result = await callOpenRouter(apiKey, model, messages, req.headers.referer);
 
-    if (!response.ok) {
-      const error = await response.text();
-      return res.status(response.status).json({ error: `OpenRouter API error: ${error}` });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
     }
 
-    const data = await response.json();
-    return res.status(200).json(data);
+    return res.status(200).json(result.data);
   } catch (error) {
     console.error('API error:', error);
     return res.status(500).json({ error: error.message || 'Internal server error' });
@@ -0,0 +1,95 @@
+// Vercel Serverless Function for automatic room detection
+const ROOM_LABELS = ['Living room', 'Kitchen', 'Bedroom', 'Bathroom', 'Hallway', 'Office'];
+const DEFAULT_FEATHER_PX = 12;
+
+// FNV-1a hash, so the stub returns the same rooms for the same image
+function hashString(value) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Splits start..end into n parts of slightly random size
+function splitRange(start, end, n, random) {
+  const weights = Array.from({ length: n }, () => 0.7 + random() * 0.6);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const edges = [start];
+  for (const w of weights) {
+    edges.push(edges[edges.length - 1] + ((end - start) * w) / total);
+  }
+  return edges;
+}
+
+// Stub provider: a plausible grid of rooms, deterministic per image.
+// Coordinates are 0-100 percentages of the image.
+async function detectWithStub(imageUrl) {
+  let state = hashString(imageUrl);
+  const random = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+
+  const columns = 2 + Math.floor(random() * 2);
+  const rows = 2;
+  const xs = splitRange(10, 90, columns, random);
+  const ys = splitRange(15, 85, rows, random);
+  const labelOffset = Math.floor(random() * ROOM_LABELS.length);
+
+  const rooms = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const index = r * columns + c;
+      const bbox = { x: xs[c], y: ys[r], w: xs[c + 1] - xs[c], h: ys[r + 1] - ys[r] };
+      rooms.push({
+        id: `room-${index + 1}`,
+        label: ROOM_LABELS[(index + labelOffset) % ROOM_LABELS.length],
+        confidence: Math.round((0.6 + random() * 0.35) * 100) / 100,
+        bbox,
+        polygon: [
+          { x: bbox.x, y: bbox.y },
+          { x: bbox.x + bbox.w, y: bbox.y },
+          { x: bbox.x + bbox.w, y: bbox.y + bbox.h },
+          { x: bbox.x, y: bbox.y + bbox.h }
+        ],
+        maskUrl: null,
+        featherPx: DEFAULT_FEATHER_PX
+      });
+    }
+  }
+
+  return rooms;
+}
+
+// Detection providers, chosen with ROOM_DETECT_PROVIDER
+const PROVIDERS = {
+  stub: detectWithStub
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const providerId = process.env.ROOM_DETECT_PROVIDER || 'stub';
+  const detect = PROVIDERS[providerId];
+  if (!detect) {
+    return res.status(500).json({ error: `Unknown room detection provider: ${providerId}` });
+  }
+
+  try {
+    const { imageUrl } = req.body;
+
+    if (!imageUrl) {
+      return res.status(400).json({ error: 'Missing imageUrl' });
+    }
+
+    const rooms = await detect(imageUrl);
+    return res.status(200).json({ rooms });
+  } catch (error) {
+    console.error('Room detection error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,40 @@
+// Vercel Serverless Function for localized room inpainting.
+// The client crops the room with padding and builds the mask; it also
+// feathers the returned crop back into the full image.
+
+// Stub provider: returns the crop unchanged, so the flow can be exercised
+// end to end without a hosted model
+async function inpaintWithStub({ image }) {
+  return image;
+}
+
+// Inpaint providers, chosen with ROOM_INPAINT_PROVIDER
+const PROVIDERS = {
+  stub: inpaintWithStub
+};
+
+export default async function handler(req, res) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const providerId = process.env.ROOM_INPAINT_PROVIDER || 'stub';
+  const inpaint = PROVIDERS[providerId];
+  if (!inpaint) {
+    return res.status(500).json({ error: `Unknown inpaint provider: ${providerId}` });
+  }
+
+  try {
+    const { image, mask, prompt, strength, seed } = req.body;
+
+    if (!image || !mask || !prompt) {
+      return res.status(400).json({ error: 'Missing image, mask or prompt' });
+    }
+
+    const result = await inpaint({ image, mask, prompt, strength, seed });
+    return res.status(200).json({ image: result });
+  } catch (error) {
+    console.error('Inpaint error:', error);
+    return res.status(500).json({ error: error.message || 'Internal server error' });
+  }
+}
@@ -1,152 +1,660 @@
-import { createSignal, Show, For } from 'solid-js';
-import type { StylePreset, RenderState, LocalProject } from './types';
-import { generateId, generateSecretToken, getOrCreateClientId } from './utils/fileUtils';
-import { getStyleConfig } from './utils/promptBuilder';
+import { createSignal, createEffect, onMount, onCleanup, untrack, Show, For } from 'solid-js';
+import type {
+  StylePreset,
+  ViewState,
+  RenderState,
+  LocalProject,
+  ProjectRender,
+  DetectedRoom,
+  RoomEdit,
+  Annotation,
+  Point,
+  PreprocessSettings,
+  GenerationSetup
+} from './types';
+import {
+  generateId,
+  generateSecretToken,
+  getOrCreateClientId,
+  enhanceImage,
+  DEFAULT_PREPROCESS_SETTINGS
+} from './utils/fileUtils';
+import { getStyleConfig, getStyleSnapshot } from './utils/promptBuilder';
+import { customStyles, loadCustomStyles } from './api/customStyles';
+import { loadGenerationSetup, saveGenerationSetup, MAX_PARALLEL_RENDERS } from './utils/generationSetup';
+import { mapWithConcurrency } from './api/http';
+import { mapAnnotationPoints, isAnnotationInBounds, clampPointToImage } from './utils/annotationUtils';
+import { compositeAnnotations } from './utils/annotationCompositor';
+import { protectKeepRegions, computeChangeHeatmap, type ChangeHeatmap } from './utils/refinementCompositor';
 import FileUpload from './components/FileUpload';
+import FloorplanPreview from './components/FloorplanPreview';
+import AnnotationLayer from './components/AnnotationLayer';
+import EnhancementPanel from './components/EnhancementPanel';
+import RefinePanel from './components/RefinePanel';
+import PromptPreview from './components/PromptPreview';
+import StylePresetManager from './components/StylePresetManager';
+import GenerationSetupPanel from './components/GenerationSetupPanel';
+import RoomOverlay from './components/RoomOverlay';
+import RenderCanvas from './components/RenderCanvas';
+import RoomEditPanel from './components/RoomEditPanel';
+import ComparisonView, { type ComparableImage } from './components/ComparisonView';
 
-// The two styles we auto-generate
-const AUTO_STYLES: StylePreset[] = ['modern', 'traditional'];
+// How far along each render state counts towards the progress ring
+const STATE_PROGRESS: Record<RenderState, number> = {
+  idle: 0,
+  uploading: 10,
+  queued: 25,
+  generating: 60,
+  done: 100,
+  error: 100
+};
+
+const STATE_LABELS: Record<RenderState, string> = {
+  idle: 'Waiting',
+  uploading: 'Uploading',
+  queued: 'Queued',
+  generating: 'Generating',
+  done: 'Done',
+  error: 'Failed'
+};
+
+// Refinement request behind a gallery tile
+interface RefineRequest {
+  feedback: string;
+  marks: Annotation[];
+  previousImage: string;
+}
 
 interface GalleryImage {
-  type: 'original' | 'render';
+  type: 'original' | 'render' | 'pending' | 'error';
+  id?: string; // Set on every tile except the original
   style?: StylePreset;
-  data: string;
+  data: string; // Empty for pending and error tiles
   label: string;
+  state?: RenderState;
+  error?: string;
+  variant?: number; // 1-based variant of its style
+  parentId?: string;
+  refine?: RefineRequest;
+  rooms?: DetectedRoom[];
+  roomEdits?: RoomEdit[];
+  heatmap?: ChangeHeatmap; // Difference from the render it refines
 }
 
 export default function App() {
-  // View state - simplified: upload | generating | render
-  const [viewState, setViewState] = createSignal<'upload' | 'generating' | 'render'>('upload');
+  // View state: upload -> annotate -> generating -> render
+  const [viewState, setViewState] = createSignal<ViewState>('upload');
 
   // File state
   const [imageData, setImageData] = createSignal<string | null>(null);
   const [fileName, setFileName] = createSignal<string>('');
 
+  // Annotation state
+  const [annotations, setAnnotations] = createSignal<Annotation[]>([]);
+
+  // Line-enhancement state
+  const [preprocessSettings, setPreprocessSettings] = createSignal<PreprocessSettings>(DEFAULT_PREPROCESS_SETTINGS);
+  const [enhancedImage, setEnhancedImage] = createSignal<string | null>(null);
+  const [enhancing, setEnhancing] = createSignal(false);
+  const [showEnhancePanel, setShowEnhancePanel] = createSignal(false);
+
+  // Preview of the annotation text added to the prompt
+  const [showPromptPreview, setShowPromptPreview] = createSignal(false);
+
+  // User-defined style presets
+  const [showStylesPanel, setShowStylesPanel] = createSignal(false);
+
+  // Styles and variants to generate, remembered per client
+  const [generationSetup, setGenerationSetup] = createSignal<GenerationSetup>(loadGenerationSetup(getOrCreateClientId()));
+  const [showSetupPanel, setShowSetupPanel] = createSignal(false);
+  const [customStylesLoaded, setCustomStylesLoaded] = createSignal(false);
+
   // Render state
-  const [renderProgress, setRenderProgress] = createSignal(0);
   const [renderError, setRenderError] = createSignal<string | null>(null);
   const [generatingCount, setGeneratingCount] = createSignal(0);
 
+  // Cancellation of the in-flight generation, and where Cancel returns to
+  let generationController: AbortController | null = null;
+  const [viewBeforeGenerating, setViewBeforeGenerating] = createSignal<ViewState>('annotate');
+
+  // Inputs of the current generation (reused by retries) and its saved project
+  let generationInput: { image: string; annotations: Annotation[] } | null = null;
+  let currentProject: LocalProject | null = null;
+
   // Gallery state - original + renders
   const [galleryImages, setGalleryImages] = createSignal<GalleryImage[]>([]);
   const [currentIndex, setCurrentIndex] = createSignal(0);
+  const [refineTarget, setRefineTarget] = createSignal<GalleryImage | null>(null);
+
+  // Room overlay on renders
+  const [showRooms, setShowRooms] = createSignal(false);
+  const [detectingRooms, setDetectingRooms] = createSignal(false);
+  const [roomError, setRoomError] = createSignal<string | null>(null);
+  const [selectedRoomId, setSelectedRoomId] = createSignal<string | null>(null);
+  const [imageSize, setImageSize] = createSignal({ width: 0, height: 0 });
+
+  // Side-by-side comparison of two gallery images
+  const [compareOpen, setCompareOpen] = createSignal(false);
+
+  // Heatmap of what a refinement changed
+  const [showChanges, setShowChanges] = createSignal(false);
+  const [computingChanges, setComputingChanges] = createSignal(false);
 
-  // Touch/swipe state
+  // Localized edit of the selected room
+  const [inpainting, setInpainting] = createSignal(false);
+  const [inpaintError, setInpaintError] = createSignal<string | null>(null);
+  const [showBefore, setShowBefore] = createSignal(false);
+
+  const isStyleAvailable = (style: StylePreset) =>
+    !style.startsWith('custom:') || customStyles().some(p => p.value === style);
+
+  // The saved setup minus custom styles deleted since; nothing is dropped
+  // before the presets have loaded
+  const activeSetup = (): GenerationSetup => customStylesLoaded()
+    ? { ...generationSetup(), styles: generationSetup().styles.filter(isStyleAvailable) }
+    : generationSetup();
+
+  // Tiles of the first run; only these drive the progress ring on the generating page
+  const firstRunTiles = () => galleryImages().filter(img => img.id && !img.refine);
+
+  // Overall progress from the real per-tile states
+  const renderProgress = () => {
+    const tiles = firstRunTiles();
+    if (tiles.length === 0) return 0;
+    return tiles.reduce((sum, tile) => sum + STATE_PROGRESS[tile.state ?? 'idle'], 0) / tiles.length;
+  };
+
+  // Touch/swipe state; swiping is off while the viewer is zoomed in
   let touchStartX = 0;
   let touchEndX = 0;
+  const [galleryZoomed, setGalleryZoomed] = createSignal(false);
+
+  // Custom style presets label renders and feed prompts, so load them up front
+  onMount(async () => {
+    try {
+      await loadCustomStyles();
+      setCustomStylesLoaded(true);
+    } catch (err) {
+      console.error('Failed to load style presets:', err);
+    }
+  });
+
+  // Re-run line enhancement whenever the plan or the settings change
+  let enhanceRun = 0;
+  createEffect(() => {
+    const image = imageData();
+    const settings = preprocessSettings();
+    const run = ++enhanceRun;
+
+    if (!image || !settings.enabled) {
+      setEnhancedImage(null);
+      setEnhancing(false);
+      return;
+    }
 
-  // Handle file upload - start generating both styles
+    setEnhancing(true);
+    enhanceImage(image, settings)
+      .then(result => {
+        if (run === enhanceRun) setEnhancedImage(result);
+      })
+      .catch(err => {
+        console.error('Enhancement failed:', err);
+        // A stale result would no longer match the settings; fall back to the plan itself
+        if (run === enhanceRun) setEnhancedImage(null);
+      })
+      .finally(() => {
+        if (run === enhanceRun) setEnhancing(false);
+      });
+  });
+
+  // Handle file upload - move on to annotating the plan
   const handleFileSelect = (dataUrl: string, name: string) => {
     setImageData(dataUrl);
     setFileName(name);
-    handleGenerateRenders(dataUrl);
+    setAnnotations([]);
+    setRenderError(null);
+    setViewState('annotate');
   };
 
-  // Generate both styles in parallel
-  const handleGenerateRenders = async (image: string) => {
+  // Handle rotate/crop in the preview - keep annotations on the same spots,
+  // dropping any that were cropped away and trimming the ones cut in part
+  const handleImageChange = (dataUrl: string, mapPoint?: (p: Point) => Point) => {
+    setImageData(dataUrl);
+    if (mapPoint) {
+      setAnnotations(prev => {
+        const kept = mapAnnotationPoints(prev, mapPoint).filter(isAnnotationInBounds);
+        return mapAnnotationPoints(kept, clampPointToImage);
+      });
+    }
+  };
+
+  // Start generation from the setup panel, with the enhanced plan if enabled
+  const handleStartGeneration = async () => {
+    // Custom styles can only be checked once their presets have loaded
+    if (!customStylesLoaded()) {
+      try {
+        await loadCustomStyles();
+        setCustomStylesLoaded(true);
+      } catch (err) {
+        console.error('Failed to load style presets:', err);
+      }
+    }
+
+    const image = enhancedImage() ?? imageData();
+    const setup = { ...generationSetup(), styles: generationSetup().styles.filter(isStyleAvailable) };
+    if (!image || enhancing() || setup.styles.length === 0) return;
+
+    // Saving a setup filtered without the presets would lose them for good
+    if (customStylesLoaded()) saveGenerationSetup(getOrCreateClientId(), setup);
+    setShowSetupPanel(false);
+    handleGenerateRenders(image, annotations(), setup);
+  };
+
+  // Gallery label of a style render; later variants get a number
+  const variantLabel = (style: StylePreset, variant = 1) =>
+    variant > 1 ? `${getStyleConfig(style).label} #${variant}` : getStyleConfig(style).label;
+
+  // Generate every variant of every style, a few at a time; each one lands in the gallery when done
+  const handleGenerateRenders = async (image: string, planAnnotations: Annotation[], setup: GenerationSetup) => {
+    generationController?.abort();
+    const controller = new AbortController();
+    generationController = controller;
+    generationInput = { image, annotations: planAnnotations };
+    currentProject = null;
+
+    setViewBeforeGenerating(viewState());
     setViewState('generating');
-    setRenderProgress(0);
     setRenderError(null);
-    setGeneratingCount(AUTO_STYLES.length);
-
-    // Start with original image in gallery
-    setGalleryImages([{
-      type: 'original',
-      data: image,
-      label: 'Original'
-    }]);
-
-    // Simulate progress
-    const progressInterval = setInterval(() => {
-      setRenderProgress(prev => {
-        if (prev < 30) return prev + 1.5;
-        if (prev < 60) return prev + 0.8;
-        if (prev < 85) return prev + 0.4;
-        if (prev < 95) return prev + 0.15;
-        return prev;
-      });
-    }, 500);
+
+    // Original first, then a pending tile per style and variant
+    const tiles: GalleryImage[] = setup.styles.flatMap(style =>
+      Array.from({ length: setup.variants }, (_, i): GalleryImage => ({
+        type: 'pending',
+        id: generateId(),
+        style,
+        variant: i + 1,
+        data: '',
+        label: variantLabel(style, i + 1)
+      })));
+    setGeneratingCount(tiles.length);
+    setGalleryImages([{ type: 'original', data: image, label: 'Original' }, ...tiles]);
+    setCurrentIndex(0);
+
+    // Tiles waiting for a slot stay pending; after a cancel they are never started
+    const results = await mapWithConcurrency(tiles, MAX_PARALLEL_RENDERS, tile =>
+      controller.signal.aborted ? Promise.resolve({ ok: false, error: null }) : generateTile(tile, controller));
+
+    // Cancelled - handleCancelGeneration has already switched views
+    if (controller.signal.aborted) return;
+
+    // Nothing succeeded - back to annotating with the first error
+    if (!results.some(r => r.ok)) {
+      const firstError = results.find(r => r.error)?.error;
+      setRenderError(firstError ? `Generation failed: ${firstError}` : 'No images were generated successfully');
+      setViewState('annotate');
+    }
+  };
+
+  // Generate one tile (a style render or a refinement) and put the result,
+  // or an error, in its gallery slot
+  const generateTile = async (
+    tile: GalleryImage,
+    controller: AbortController
+  ): Promise<{ ok: boolean; error: string | null }> => {
+    const input = generationInput;
+    const style = tile.style;
+    if (!input || !tile.id || !style) return { ok: false, error: null };
+
+    const setState = (state: RenderState) => updateTile(tile.id!, { state });
+
+    setState('idle');
 
     try {
-      const { generateIsometricRender } = await import('./api/openrouter');
-
-      // Generate both styles in parallel
-      const results = await Promise.all(
-        AUTO_STYLES.map(async (style) => {
-          try {
-            const result = await generateIsometricRender(image, {
-              style,
-              annotations: []
-            });
-            return { style, result, error: null };
-          } catch (err) {
-            console.error(`Generation failed for ${style}:`, err);
-            return { style, result: null, error: err };
-          }
-        })
-      );
-
-      clearInterval(progressInterval);
-      setRenderProgress(100);
-
-      // Add successful renders to gallery
-      const newImages: GalleryImage[] = [{
-        type: 'original',
-        data: image,
-        label: 'Original'
-      }];
-
-      for (const { style, result } of results) {
-        if (result?.image) {
-          const styleConfig = getStyleConfig(style);
-          newImages.push({
-            type: 'render',
-            style,
-            data: result.image,
-            label: styleConfig.label
-          });
+      const { generateIsometricRender } = await import('./api/generation');
+
+      // The model sees the marks burned into the render; the clean render is what we keep
+      const previousImage = tile.refine?.marks.length
+        ? await compositeAnnotations(tile.refine.previousImage, tile.refine.marks)
+        : tile.refine?.previousImage;
+
+      const result = await generateIsometricRender(input.image, {
+        style,
+        annotations: tile.refine ? tile.refine.marks : input.annotations,
+        feedback: tile.refine?.feedback,
+        previousImage,
+        variant: tile.variant,
+        signal: controller.signal,
+        onStatus: (state) => {
+          if (!controller.signal.aborted) setState(state);
         }
+      });
+
+      if (controller.signal.aborted) return { ok: false, error: null };
+
+      // Models drift in areas marked keep: put the previous pixels back there
+      let image = result.image;
+      if (tile.refine) {
+        try {
+          image = await protectKeepRegions(tile.refine.previousImage, result.image, tile.refine.marks);
+        } catch (err) {
+          console.error('Failed to restore keep regions:', err);
+        }
+        if (controller.signal.aborted) return { ok: false, error: null };
       }
 
-      if (newImages.length > 1) {
-        setGalleryImages(newImages);
-        setCurrentIndex(1); // Start at first render
+      setState('done');
+      updateTile(tile.id, { type: 'render', data: image, error: undefined, heatmap: undefined });
+
+      // First finished render: leave the loading page and show it
+      if (viewState() === 'generating') {
+        setCurrentIndex(galleryImages().findIndex(img => img.id === tile.id));
         setViewState('render');
+      }
+
+      await saveRender(tile, image);
+      return { ok: true, error: null };
+    } catch (err) {
+      if (controller.signal.aborted) return { ok: false, error: null };
+
+      console.error(`Generation failed for ${tile.label}:`, err);
+      const message = err instanceof Error ? err.message : 'Generation failed';
+      setState('error');
+      updateTile(tile.id, { type: 'error', error: message });
+      return { ok: false, error: message };
+    }
+  };
+
+  const updateTile = (id: string, changes: Partial<GalleryImage>) => {
+    setGalleryImages(prev => prev.map(img => img.id === id ? { ...img, ...changes } : img));
+  };
+
+  // Shared controller for retries and refinements after the first run
+  const getGenerationController = () => {
+    if (!generationController || generationController.signal.aborted) {
+      generationController = new AbortController();
+    }
+    return generationController;
+  };
 
-        // Save to local storage
-        const project: LocalProject = {
+  // Retry a failed tile from the gallery
+  const handleRetryTile = (tile: GalleryImage) => {
+    const pending: GalleryImage = { ...tile, type: 'pending', error: undefined };
+    updateTile(tile.id!, pending);
+    generateTile(pending, getGenerationController());
+  };
+
+  // Refine a render: add a child version right after its last descendant
+  const handleRefine = (feedback: string, marks: Annotation[]) => {
+    const source = refineTarget();
+    setRefineTarget(null);
+    if (!source?.id || !source.style) return;
+
+    const images = galleryImages();
+    const versions = images.filter(img => img.style === source.style && img.variant === source.variant).length;
+    const tile: GalleryImage = {
+      type: 'pending',
+      id: generateId(),
+      style: source.style,
+      variant: source.variant,
+      data: '',
+      label: `${variantLabel(source.style, source.variant)} v${versions + 1}`,
+      parentId: source.id,
+      refine: { feedback, marks, previousImage: source.data }
+    };
+
+    // Descendants sit directly after their parent
+    const descendants = new Set([source.id]);
+    let insertAt = images.findIndex(img => img.id === source.id) + 1;
+    while (insertAt < images.length && images[insertAt].parentId && descendants.has(images[insertAt].parentId!)) {
+      descendants.add(images[insertAt].id!);
+      insertAt++;
+    }
+
+    setGalleryImages([...images.slice(0, insertAt), tile, ...images.slice(insertAt)]);
+    setCurrentIndex(insertAt);
+    generateTile(tile, getGenerationController());
+  };
+
+  // Save the project after every finished render
+  const saveRender = async (tile: GalleryImage, data: string) => {
+    const input = generationInput;
+    if (!input || !tile.id || !tile.style) return;
+
+    const now = Date.now();
+    const render: ProjectRender = {
+      id: tile.id,
+      style: tile.style,
+      data,
+      createdAt: now,
+      parentId: tile.parentId,
+      feedback: tile.refine?.feedback,
+      variant: tile.variant,
+      styleConfig: getStyleSnapshot(tile.style)
+    };
+
+    // Update synchronously so parallel renders don't overwrite each other
+    currentProject = currentProject
+      ? {
+          ...currentProject,
+          renders: [...(currentProject.renders ?? []).filter(r => r.id !== render.id), render],
+          updatedAt: now
+        }
+      : {
           id: generateId(),
           clientId: getOrCreateClientId(),
           secretToken: generateSecretToken(),
           originalFileUrl: '',
           originalFileName: fileName(),
           renderUrl: '',
-          annotations: [],
-          style: 'modern',
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-          originalFileData: image,
-          renderData: newImages[1]?.data
+          annotations: input.annotations,
+          style: tile.style,
+          preprocessing: preprocessSettings().enabled ? preprocessSettings() : undefined,
+          createdAt: now,
+          updatedAt: now,
+          // Unenhanced plan; the render input is reproducible from it plus preprocessing
+          originalFileData: imageData() ?? input.image,
+          renderData: data,
+          renders: [render]
         };
 
-        const { saveProjectLocally } = await import('./api/storage');
-        await saveProjectLocally(project);
-      } else {
-        throw new Error('No images were generated successfully');
-      }
+    await saveCurrentProject();
+  };
+
+  const saveCurrentProject = async () => {
+    if (!currentProject) return;
+
+    try {
+      const { saveProjectLocally } = await import('./api/storage');
+      await saveProjectLocally(currentProject);
+    } catch (err) {
+      console.error('Failed to save project:', err);
+    }
+  };
+
+  // Store changes to one render (rooms, room edits) with the saved project
+  const updateSavedRender = async (id: string, changes: Partial<ProjectRender>) => {
+    if (!currentProject?.renders?.some(r => r.id === id)) return;
+
+    currentProject = {
+      ...currentProject,
+      renders: currentProject.renders.map(r => r.id === id ? { ...r, ...changes } : r),
+      updatedAt: Date.now()
+    };
+    await saveCurrentProject();
+  };
+
+  // Detect the rooms of a render once; results are cached per image
+  const ensureRooms = async (tile: GalleryImage) => {
+    if (tile.type !== 'render' || !tile.id || tile.rooms || detectingRooms()) return;
+
+    setDetectingRooms(true);
+    setRoomError(null);
+
+    try {
+      const { detectRooms } = await import('./api/rooms');
+      const rooms = await detectRooms(tile.data);
+      updateTile(tile.id, { rooms });
+      await updateSavedRender(tile.id, { rooms });
+    } catch (err) {
+      console.error('Room detection failed:', err);
+      setRoomError(err instanceof Error ? err.message : 'Room detection failed');
+    } finally {
+      setDetectingRooms(false);
+    }
+  };
+
+  const handleToggleRooms = () => {
+    setSelectedRoomId(null);
+    setRoomError(null);
+    setShowChanges(false);
+    setShowRooms(v => !v);
+  };
+
+  // Compare a refinement with the render it was made from
+  const ensureHeatmap = async (tile: GalleryImage) => {
+    if (tile.type !== 'render' || !tile.id || !tile.refine || tile.heatmap || computingChanges()) return;
+
+    setComputingChanges(true);
+    try {
+      const heatmap = await computeChangeHeatmap(tile.refine.previousImage, tile.data);
+      updateTile(tile.id, { heatmap });
+    } catch (err) {
+      console.error('Failed to compute changes:', err);
+    } finally {
+      setComputingChanges(false);
+    }
+  };
+
+  const handleToggleChanges = () => {
+    setShowRooms(false);
+    setSelectedRoomId(null);
+    setShowChanges(v => !v);
+  };
+
+  createEffect(() => {
+    const tile = currentImage();
+    if (showChanges() && tile) untrack(() => ensureHeatmap(tile));
+  });
+
+  // Keep the overlay in step with the image being shown; room edits change
+  // the tile's data but keep its selection
+  let roomTileId: string | undefined;
+  createEffect(() => {
+    const tile = currentImage();
+    if (tile?.id !== roomTileId) {
+      roomTileId = tile?.id;
+      handleSelectRoom(null);
+    }
+    if (showRooms() && tile) untrack(() => ensureRooms(tile));
+  });
+
+  const handleSelectRoom = (id: string | null) => {
+    setSelectedRoomId(id);
+    setShowBefore(false);
+    setInpaintError(null);
+  };
+
+
+  // Regenerate only the selected room of the current render
+  const handleRoomEdit = async (request: string, strength: number) => {
+    const tile = currentImage();
+    const room = selectedRoom();
+    if (!tile?.id || !tile.style || !room || inpainting()) return;
+
+    const controller = getGenerationController();
+    setInpainting(true);
+    setInpaintError(null);
+
+    try {
+      const { inpaintRoom } = await import('./api/inpaint');
+      const seed = Math.floor(Math.random() * 2 ** 31);
+      const result = await inpaintRoom(tile.data, room, {
+        request,
+        style: tile.style,
+        strength,
+        seed,
+        signal: controller.signal
+      });
+
+      // Only the repainted crop is kept; the rest of the image did not change
+      const edit: RoomEdit = {
+        id: generateId(),
+        roomId: room.id,
+        prompt: request,
+        strength,
+        seed,
+        before: result.before,
+        rect: result.rect,
+        createdAt: Date.now()
+      };
+      const roomEdits = [...(tile.roomEdits ?? []), edit];
+
+      updateTile(tile.id, { data: result.image, roomEdits, heatmap: undefined });
+      setShowBefore(false);
+      await updateSavedRender(tile.id, { data: result.image, roomEdits });
     } catch (err) {
-      clearInterval(progressInterval);
-      console.error('Generation failed:', err);
-      setRenderError(err instanceof Error ? err.message : 'Generation failed');
-      setViewState('upload');
+      if (controller.signal.aborted) return;
+      console.error('Room edit failed:', err);
+      setInpaintError(err instanceof Error ? err.message : 'Room edit failed');
+    } finally {
+      setInpainting(false);
     }
   };
 
+  // Nothing but this room changed since the edit, so its crop can be pasted back as is
+  const isExactRevert = (edits: RoomEdit[], index: number) =>
+    !edits.slice(index + 1).some(e => e.roomId !== edits[index].roomId);
+
+  // Undo a room edit together with any later edits of the same room
+  const handleRevertRoomEdit = async (editId: string) => {
+    const tile = currentImage();
+    const edits = tile?.roomEdits ?? [];
+    const index = edits.findIndex(e => e.id === editId);
+    const room = tile?.rooms?.find(r => r.id === edits[index]?.roomId);
+    if (!tile?.id || index < 0 || !room || inpainting()) return;
+
+    const edit = edits[index];
+    const remaining = edits.filter((e, i) => i < index || e.roomId !== edit.roomId);
+
+    setInpainting(true);
+    setInpaintError(null);
+
+    try {
+      const { restoreRoom } = await import('./api/inpaint');
+      const data = await restoreRoom(tile.data, edit, room, isExactRevert(edits, index));
+
+      updateTile(tile.id, { data, roomEdits: remaining, heatmap: undefined });
+      setShowBefore(false);
+      await updateSavedRender(tile.id, { data, roomEdits: remaining });
+    } catch (err) {
+      console.error('Reverting room edit failed:', err);
+      setInpaintError(err instanceof Error ? err.message : 'Revert failed');
+    } finally {
+      setInpainting(false);
+    }
+  };
+
+  // Abort all in-flight style requests and go back
+  const handleCancelGeneration = () => {
+    generationController?.abort();
+    generationController = null;
+    setViewState(viewBeforeGenerating());
+  };
+
   // Handle new render
   const handleNewRender = () => {
+    generationController?.abort();
+    generationController = null;
+    generationInput = null;
+    currentProject = null;
+    setRefineTarget(null);
+    setShowRooms(false);
+    setShowChanges(false);
+    setCompareOpen(false);
     setViewState('upload');
     setImageData(null);
     setFileName('');
+    setAnnotations([]);
     setGalleryImages([]);
     setCurrentIndex(0);
     setRenderError(null);
@@ -156,7 +664,7 @@ export default function App() {
   const handleDownload = () => {
     const images = galleryImages();
     const current = images[currentIndex()];
-    if (!current) return;
+    if (!current?.data) return;
 
     const link = document.createElement('a');
     link.href = current.data;
@@ -170,13 +678,18 @@ export default function App() {
   // Swipe handlers
   const handleTouchStart = (e: TouchEvent) => {
     touchStartX = e.touches[0].clientX;
+    touchEndX = touchStartX;
   };
 
   const handleTouchMove = (e: TouchEvent) => {
-    touchEndX = e.touches[0].clientX;
+    // Two fingers pinch; they don't swipe
+    touchEndX = e.touches.length > 1 ? touchStartX : e.touches[0].clientX;
   };
 
   const handleTouchEnd = () => {
+    // Pinches and pans belong to the viewer
+    if (galleryZoomed()) return;
+
     const diff = touchStartX - touchEndX;
     const threshold = 50;
     const images = galleryImages();
@@ -213,6 +726,46 @@ export default function App() {
   // Get current image
   const currentImage = () => galleryImages()[currentIndex()];
 
+  const selectedRoom = () => currentImage()?.rooms?.find(r => r.id === selectedRoomId()) ?? null;
+
+  const selectedRoomEdits = () => currentImage()?.roomEdits?.filter(e => e.roomId === selectedRoomId()) ?? [];
+
+  // Finished images that can be compared with each other
+  const comparableImages = (): ComparableImage[] =>
+    galleryImages()
+      .filter(img => img.type === 'original' || img.type === 'render')
+      .map(img => ({ key: img.id ?? 'original', label: img.label, data: img.data }));
+
+  // Compare the current image with the one it came from: its parent for
+  // refinements, otherwise the original
+  const getComparePair = (): [string, string] => {
+    const keys = comparableImages().map(img => img.key);
+    const current = currentImage();
+    const b = current?.id && keys.includes(current.id) ? current.id : keys.find(k => k !== 'original') ?? keys[0];
+    const a = current?.parentId && keys.includes(current.parentId) ? current.parentId : keys.find(k => k !== b) ?? b;
+    return [a, b];
+  };
+
+  // Before/after toggle shows the image with the room as before its latest edit
+  const [beforeImage, setBeforeImage] = createSignal<string | null>(null);
+  createEffect(() => {
+    const tile = currentImage();
+    const room = selectedRoom();
+    const edits = tile?.roomEdits ?? [];
+    const index = edits.map(e => e.roomId).lastIndexOf(selectedRoomId() ?? '');
+    setBeforeImage(null);
+    if (!showBefore() || !tile || !room || index < 0) return;
+
+    let cancelled = false;
+    onCleanup(() => { cancelled = true; });
+    import('./api/inpaint')
+      .then(({ restoreRoom }) => restoreRoom(tile.data, edits[index], room, isExactRevert(edits, index)))
+      .then(image => { if (!cancelled) setBeforeImage(image); })
+      .catch(err => console.error('Failed to build before image:', err));
+  });
+
+  const displayedImage = () => beforeImage() ?? currentImage()!.data;
+
   return (
     <div class="app">
       <main class="main-content">
@@ -233,6 +786,91 @@ export default function App() {
           </div>
         </Show>
 
+        {/* Annotate page */}
+        <Show when={viewState() === 'annotate' && imageData()}>
+          <div class="annotate-page">
+            <div class="annotate-header">
+              <button class="btn-secondary" onClick={handleNewRender}>
+                Back
+              </button>
+              <span class="annotate-title">{fileName()}</span>
+              <button
+                class={`btn-secondary ${preprocessSettings().enabled ? 'active' : ''}`}
+                onClick={() => { setShowEnhancePanel(v => !v); setShowPromptPreview(false); setShowStylesPanel(false); setShowSetupPanel(false); }}
+              >
+                Enhance
+              </button>
+              <button
+                class={`btn-secondary ${showPromptPreview() ? 'active' : ''}`}
+                onClick={() => { setShowPromptPreview(v => !v); setShowEnhancePanel(false); setShowStylesPanel(false); setShowSetupPanel(false); }}
+              >
+                Prompt
+              </button>
+              <button
+                class={`btn-secondary ${showStylesPanel() ? 'active' : ''}`}
+                onClick={() => { setShowStylesPanel(v => !v); setShowEnhancePanel(false); setShowPromptPreview(false); setShowSetupPanel(false); }}
+              >
+                Styles
+              </button>
+              <button
+                class="btn-primary"
+                onClick={() => { setShowSetupPanel(v => !v); setShowEnhancePanel(false); setShowPromptPreview(false); setShowStylesPanel(false); }}
+              >
+                Generate
+              </button>
+            </div>
+
+            <Show when={renderError()}>
+              <div class="error-message annotate-error">
+                {renderError()}
+              </div>
+            </Show>
+
+            <FloorplanPreview
+              imageData={imageData()!}
+              displayImage={enhancedImage() ?? undefined}
+              onImageChange={handleImageChange}
+            >
+              <AnnotationLayer
+                annotations={annotations()}
+                onAnnotationsChange={setAnnotations}
+              />
+            </FloorplanPreview>
+
+            <Show when={showPromptPreview()}>
+              <PromptPreview
+                annotations={annotations()}
+                onClose={() => setShowPromptPreview(false)}
+              />
+            </Show>
+
+            <Show when={showEnhancePanel()}>
+              <EnhancementPanel
+                settings={preprocessSettings()}
+                onChange={setPreprocessSettings}
+                beforeImage={imageData()!}
+                afterImage={enhancedImage()}
+                processing={enhancing()}
+                onClose={() => setShowEnhancePanel(false)}
+              />
+            </Show>
+
+            <Show when={showStylesPanel()}>
+              <StylePresetManager onClose={() => setShowStylesPanel(false)} />
+            </Show>
+
+            <Show when={showSetupPanel()}>
+              <GenerationSetupPanel
+                setup={activeSetup()}
+                onChange={setGenerationSetup}
+                onStart={handleStartGeneration}
+                onClose={() => setShowSetupPanel(false)}
+                disabled={enhancing()}
+              />
+            </Show>
+          </div>
+        </Show>
+
         {/* Generating page */}
         <Show when={viewState() === 'generating'}>
           <div class="generating-page">
@@ -254,13 +892,19 @@ export default function App() {
                 <span class="progress-text">{Math.round(renderProgress())}%</span>
               </div>
               <h3>Creating your 3D rooms</h3>
-              <p class="loading-hint">
-                {renderProgress() < 20 && 'Analyzing floor plan...'}
-                {renderProgress() >= 20 && renderProgress() < 40 && 'Generating modern style...'}
-                {renderProgress() >= 40 && renderProgress() < 60 && 'Generating traditional style...'}
-                {renderProgress() >= 60 && renderProgress() < 80 && 'Adding details...'}
-                {renderProgress() >= 80 && 'Final touches...'}
-              </p>
+              <ul class="style-status-list">
+                <For each={firstRunTiles()}>
+                  {(tile) => (
+                    <li class={`style-status ${tile.state ?? 'idle'}`}>
+                      <span>{tile.label}</span>
+                      <span class="style-status-state">{STATE_LABELS[tile.state ?? 'idle']}</span>
+                    </li>
+                  )}
+                </For>
+              </ul>
+              <button class="cancel-button" onClick={handleCancelGeneration}>
+                Cancel
+              </button>
             </div>
           </div>
         </Show>
@@ -275,13 +919,47 @@ export default function App() {
           >
             {/* Current image */}
             <div class="gallery-image-wrapper">
-              <Show when={currentImage()}>
-                <img
-                  src={currentImage()!.data}
+              <Show when={currentImage()?.type === 'original' || currentImage()?.type === 'render'}>
+                <RenderCanvas
+                  imageData={displayedImage()}
                   alt={currentImage()!.label}
-                  class="gallery-image"
-                  draggable={false}
-                />
+                  viewKey={currentImage()!.id ?? 'original'}
+                  onImageLoad={setImageSize}
+                  onZoomedChange={setGalleryZoomed}
+                >
+                  <Show when={showChanges() && currentImage()?.heatmap}>
+                    <img
+                      src={currentImage()!.heatmap!.image}
+                      alt="Changed areas"
+                      class="gallery-heatmap"
+                      draggable={false}
+                    />
+                  </Show>
+                  <Show when={showRooms() && currentImage()?.rooms && imageSize().width > 0}>
+                    <RoomOverlay
+                      rooms={currentImage()!.rooms!}
+                      width={imageSize().width}
+                      height={imageSize().height}
+                      selectedId={selectedRoomId()}
+                      onSelect={handleSelectRoom}
+                    />
+                  </Show>
+                </RenderCanvas>
+              </Show>
+              <Show when={currentImage()?.type === 'pending'}>
+                <div class="gallery-tile pending">
+                  <div class="tile-spinner" />
+                  <p>{STATE_LABELS[currentImage()!.state ?? 'idle']}...</p>
+                </div>
+              </Show>
+              <Show when={currentImage()?.type === 'error'}>
+                <div class="gallery-tile error">
+                  <h4>{currentImage()!.label} failed</h4>
+                  <p>{currentImage()!.error}</p>
+                  <button class="btn-primary" onClick={() => handleRetryTile(currentImage()!)}>
+                    Retry
+                  </button>
+                </div>
               </Show>
             </div>
 
@@ -306,18 +984,84 @@ export default function App() {
               {currentImage()?.label}
             </div>
 
+            {/* Refinement request behind this version */}
+            <Show when={currentImage()?.refine}>
+              <div class="gallery-refine-note">
+                "{currentImage()!.refine!.feedback}"
+              </div>
+            </Show>
+
+            {/* Room status */}
+            <Show when={showRooms() && currentImage()?.type === 'render'}>
+              <div class="gallery-status">
+                {detectingRooms()
+                  ? 'Detecting rooms...'
+                  : roomError()
+                    ? roomError()
+                    : selectedRoom()
+                      ? `${selectedRoom()!.label} · ${Math.round(selectedRoom()!.confidence * 100)}% confidence`
+                      : `${currentImage()?.rooms?.length ?? 0} rooms - tap one to select it`}
+              </div>
+            </Show>
+
+            {/* Share of the image the refinement changed */}
+            <Show when={showChanges() && currentImage()?.type === 'render'}>
+              <div class="gallery-status">
+                {!currentImage()?.refine
+                  ? 'First render - nothing to compare with'
+                  : computingChanges() || !currentImage()?.heatmap
+                    ? 'Comparing with previous version...'
+                    : `${(currentImage()!.heatmap!.changed * 100).toFixed(1)}% of the image changed`}
+              </div>
+            </Show>
+
+            {/* Edit panel for the selected room */}
+            <Show when={showRooms() && selectedRoom()}>
+              <RoomEditPanel
+                room={selectedRoom()!}
+                edits={selectedRoomEdits()}
+                busy={inpainting()}
+                error={inpaintError()}
+                showBefore={showBefore()}
+                onSubmit={handleRoomEdit}
+                onRevert={handleRevertRoomEdit}
+                onShowBeforeChange={setShowBefore}
+                onClose={() => handleSelectRoom(null)}
+              />
+            </Show>
+
             {/* Dots indicator */}
             <div class="gallery-dots">
               <For each={galleryImages()}>
                 {(_, index) => (
                   <button
-                    class={`gallery-dot ${currentIndex() === index() ? 'active' : ''}`}
+                    class={`gallery-dot ${currentIndex() === index() ? 'active' : ''} ${galleryImages()[index()].type}`}
                     onClick={() => goToImage(index())}
                   />
                 )}
               </For>
             </div>
           </div>
+
+          {/* Comparison of any two images */}
+          <Show when={compareOpen()}>
+            <ComparisonView
+              images={comparableImages()}
+              initialA={getComparePair()[0]}
+              initialB={getComparePair()[1]}
+              onClose={() => setCompareOpen(false)}
+            />
+          </Show>
+
+          {/* Refine panel */}
+          <Show when={refineTarget()}>
+            <RefinePanel
+              image={refineTarget()!.data}
+              label={refineTarget()!.label}
+              onSubmit={handleRefine}
+              onClose={() => setRefineTarget(null)}
+            />
+          </Show>
         </Show>
       </main>
 
@@ -331,6 +1075,52 @@ export default function App() {
             <span>Download</span>
           </button>
 
+          <button
+            class="bottom-bar-btn"
+            onClick={() => setRefineTarget(currentImage())}
+            disabled={currentImage()?.type !== 'render'}
+          >
+            <svg viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M12 20h9M16.5 3.5a2.121 2.121 0 013 3L7 19l-4 1 1-4L16.5 3.5z" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+            <span>Refine</span>
+          </button>
+
+          <button
+            class="bottom-bar-btn"
+            onClick={() => setCompareOpen(true)}
+            disabled={comparableImages().length < 2}
+          >
+            <svg viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2">
+              <rect x="3" y="4" width="18" height="16" rx="2"/>
+              <path d="M12 2v20" stroke-linecap="round"/>
+            </svg>
+            <span>Compare</span>
+          </button>
+
+          <button
+            class={`bottom-bar-btn ${showRooms() ? 'active' : ''}`}
+            onClick={handleToggleRooms}
+            disabled={currentImage()?.type !== 'render'}
+          >
+            <svg viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M3 3h18v18H3zM3 12h9M12 3v18M12 15h9" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+            <span>Rooms</span>
+          </button>
+
+          <button
+            class={`bottom-bar-btn ${showChanges() ? 'active' : ''}`}
+            onClick={handleToggleChanges}
+            disabled={!currentImage()?.refine || currentImage()?.type !== 'render'}
+          >
+            <svg viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2">
+              <rect x="3" y="3" width="18" height="18" rx="2"/>
+              <path d="M3 15l5-5 4 4 3-3 6 6" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+            <span>Changes</span>
+          </button>
+
           <button class="bottom-bar-btn primary" onClick={handleNewRender}>
             <svg viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2">
               <line x1="12" y1="5" x2="12" y2="19" />
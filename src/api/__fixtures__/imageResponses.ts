@@ -0,0 +1,70 @@
+// Chat completion bodies in the shapes OpenRouter and Gemini return image output
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+export const PNG_DATA_URL = `data:image/png;base64,${PNG_BASE64}`;
+
+const usage = { prompt_tokens: 1200, completion_tokens: 1290, total_tokens: 2490 };
+
+/**
+ * Wraps a message in a single-choice completion
+ */
+function completion(message: Record<string, unknown>, choice: Record<string, unknown> = {}) {
+  return {
+    id: 'gen-123',
+    model: 'google/gemini-3-pro-image-preview',
+    choices: [{ index: 0, finish_reason: 'stop', ...choice, message: { role: 'assistant', ...message } }],
+    usage
+  };
+}
+
+export const imageUrlPart = completion({
+  content: [
+    { type: 'text', text: 'Here is the render.' },
+    { type: 'image_url', image_url: { url: PNG_DATA_URL } }
+  ]
+});
+
+export const imageUrlString = completion({
+  content: [{ type: 'image', image_url: PNG_DATA_URL }]
+});
+
+export const inlineDataSnake = completion({
+  content: [{ inline_data: { mime_type: 'image/jpeg', data: PNG_BASE64 } }]
+});
+
+export const inlineDataCamel = completion({
+  content: [{ type: 'text', text: 'Done' }, { inlineData: { mimeType: 'image/webp', data: PNG_BASE64 } }]
+});
+
+export const messageImages = completion({
+  content: 'Isometric render of the plan.',
+  images: [{ type: 'image_url', image_url: { url: PNG_DATA_URL } }]
+});
+
+export const messageImage = completion({
+  content: null,
+  image: PNG_DATA_URL
+});
+
+export const base64InString = completion({
+  content: `Render below:\n${PNG_DATA_URL}\nEnjoy.`
+});
+
+export const apiError = { error: { code: 429, message: 'Rate limit exceeded' } };
+
+export const noChoices = { id: 'gen-123', choices: [] };
+
+export const emptyMessage = completion({ content: '' });
+
+export const refusalField = completion({ content: null, refusal: 'I cannot help with that request.' });
+
+export const safetyFinish = completion(
+  { content: null },
+  { finish_reason: 'stop', native_finish_reason: 'IMAGE_SAFETY' }
+);
+
+export const truncated = completion({ content: 'The render shows' }, { finish_reason: 'length' });
+
+export const refusalText = completion({ content: "I'm sorry, but I can't generate images of that." });
+
+export const textOnly = completion({ content: 'The plan has three bedrooms and a large kitchen.' });
@@ -0,0 +1,102 @@
+import { createSignal } from 'solid-js';
+import type { CustomStyleId, CustomStylePreset } from '../types';
+import { generateId } from '../utils/fileUtils';
+import { setCustomStyleConfigs } from '../utils/promptBuilder';
+import {
+  serializeStylePresets,
+  parseStylePresetDocument,
+  validateStylePresetInput,
+  type StylePresetInput
+} from '../utils/stylePresetSchema';
+
+// User-defined presets, shared by every component that lists styles
+const [customStyles, setCustomStyles] = createSignal<CustomStylePreset[]>([]);
+export { customStyles };
+
+let loaded: Promise<CustomStylePreset[]> | null = null;
+
+/**
+ * Updates the shared list and the presets prompts can use
+ */
+function publish(presets: CustomStylePreset[]) {
+  const sorted = [...presets].sort((a, b) => a.createdAt - b.createdAt);
+  setCustomStyleConfigs(sorted);
+  setCustomStyles(sorted);
+}
+
+/**
+ * Loads the saved presets once per session
+ */
+export function loadCustomStyles(): Promise<CustomStylePreset[]> {
+  if (!loaded) {
+    loaded = import('./storage')
+      .then(({ getCustomStylePresets }) => getCustomStylePresets())
+      .then(presets => {
+        publish(presets);
+        return presets;
+      })
+      .catch(err => {
+        loaded = null;
+        throw err;
+      });
+  }
+  return loaded;
+}
+
+/**
+ * Creates a preset, or updates the one with the given id
+ */
+export async function saveCustomStyle(input: StylePresetInput, value?: CustomStyleId): Promise<CustomStylePreset> {
+  const error = validateStylePresetInput(input);
+  if (error) throw new Error(error);
+
+  const existing = value ? customStyles().find(p => p.value === value) : undefined;
+  const now = Date.now();
+  const preset: CustomStylePreset = {
+    value: existing?.value ?? `custom:${generateId()}`,
+    label: input.label.trim(),
+    description: input.description.trim(),
+    promptSuffix: input.promptSuffix.trim(),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now
+  };
+  if (input.swatch) preset.swatch = input.swatch;
+
+  const { saveCustomStylePreset } = await import('./storage');
+  await saveCustomStylePreset(preset);
+  publish([...customStyles().filter(p => p.value !== preset.value), preset]);
+  return preset;
+}
+
+/**
+ * Deletes a preset. Renders made with it keep its label and prompt.
+ */
+export async function deleteCustomStyle(value: CustomStyleId): Promise<void> {
+  const { deleteCustomStylePreset } = await import('./storage');
+  await deleteCustomStylePreset(value);
+  publish(customStyles().filter(p => p.value !== value));
+}
+
+/**
+ * Exports every preset as a versioned JSON document
+ */
+export function exportCustomStyles(): string {
+  return serializeStylePresets(customStyles());
+}
+
+/**
+ * Imports presets from an exported document. Presets with an id that already
+ * exists replace the saved one. Returns how many were imported.
+ */
+export async function importCustomStyles(json: string): Promise<number> {
+  const imported = parseStylePresetDocument(json);
+  const { saveCustomStylePreset } = await import('./storage');
+
+  for (const preset of imported) {
+    await saveCustomStylePreset(preset);
+  }
+
+  const ids = new Set(imported.map(p => p.value));
+  publish([...customStyles().filter(p => !ids.has(p.value)), ...imported]);
+  return imported.length;
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { estimateGeneration } from './generation';
+import { AI_MODELS } from './openrouter';
+import { MAX_PARALLEL_RENDERS } from '../utils/generationSetup';
+
+describe('estimateGeneration', () => {
+  it('charges every render and times them in waves of the parallel limit', () => {
+    const model = AI_MODELS['gemini-2.5-flash-image'];
+    const estimate = estimateGeneration({ styles: ['modern', 'traditional', 'scandinavian'], variants: 2 }, 'gemini-2.5-flash-image');
+
+    expect(estimate.renders).toBe(6);
+    expect(estimate.cost).toBeCloseTo(6 * model.costPerImage);
+    expect(estimate.seconds).toBe(Math.ceil(6 / MAX_PARALLEL_RENDERS) * model.secondsPerImage);
+  });
+});
@@ -0,0 +1,78 @@
+import type { GenerationOptions, GenerationResult, GenerationSetup, GenerationEstimate, ImageProvider } from '../types';
+import { buildPrompt, buildRefinementPrompt } from '../utils/promptBuilder';
+import { MAX_PARALLEL_RENDERS } from '../utils/generationSetup';
+import { openRouterProvider, DEFAULT_MODEL_KEY } from './openrouter';
+import { mockProvider } from './mockProvider';
+
+// Registered image-generation providers
+export const IMAGE_PROVIDERS: Record<string, ImageProvider> = {
+  [openRouterProvider.id]: openRouterProvider,
+  [mockProvider.id]: mockProvider
+};
+
+const DEFAULT_PROVIDER = openRouterProvider.id;
+
+/**
+ * Gets the provider chosen by VITE_IMAGE_PROVIDER (defaults to OpenRouter)
+ */
+export function getImageProvider(): ImageProvider {
+  const id = import.meta.env.VITE_IMAGE_PROVIDER || DEFAULT_PROVIDER;
+  const provider = IMAGE_PROVIDERS[id];
+
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${id}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Generates an isometric 3D render from a floorplan image
+ */
+export async function generateIsometricRender(
+  floorplanImage: string,
+  options: GenerationOptions,
+  modelKey: string = DEFAULT_MODEL_KEY
+): Promise<GenerationResult> {
+  // Build prompt based on options
+  let prompt: string;
+
+  if (options.feedback && options.previousImage) {
+    // Refinement mode
+    prompt = buildRefinementPrompt(options.annotations, options.style, options.feedback);
+  } else {
+    // Initial generation
+    prompt = buildPrompt(options.annotations, options.style, options.variant);
+  }
+
+  // Previous image follows the floorplan when refining
+  const images = options.previousImage
+    ? [floorplanImage, options.previousImage]
+    : [floorplanImage];
+
+  return getImageProvider().generate({
+    prompt,
+    images,
+    modelKey,
+    signal: options.signal,
+    onStatus: options.onStatus
+  });
+}
+
+/**
+ * Estimates what generating every variant of every chosen style will cost and take
+ */
+export function estimateGeneration(
+  setup: GenerationSetup,
+  modelKey: string = DEFAULT_MODEL_KEY
+): GenerationEstimate {
+  const renders = setup.styles.length * setup.variants;
+  const perRender = getImageProvider().estimate(modelKey);
+
+  return {
+    renders,
+    cost: renders * perRender.cost,
+    // Renders run in waves of MAX_PARALLEL_RENDERS
+    seconds: Math.ceil(renders / MAX_PARALLEL_RENDERS) * perRender.seconds
+  };
+}
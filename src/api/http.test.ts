@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWithRetry, mapWithConcurrency, DEFAULT_REQUEST_POLICY, type RequestPolicy } from './http';
+
+const FAST_POLICY: RequestPolicy = { ...DEFAULT_REQUEST_POLICY, maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+/**
+ * Stubs fetch with responses of the given statuses, in order
+ */
+function stubFetch(...statuses: number[]) {
+  const fetchMock = vi.fn();
+  for (const status of statuses) {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status }));
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchWithRetry', () => {
+  it('retries 5xx responses for idempotent requests', async () => {
+    const fetchMock = stubFetch(503, 502, 200);
+    const response = await fetchWithRetry('/api/test', { method: 'GET' }, undefined, FAST_POLICY);
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry 5xx responses for non-idempotent requests', async () => {
+    const fetchMock = stubFetch(502, 200);
+    const response = await fetchWithRetry('/api/test', { method: 'POST' }, undefined, { ...FAST_POLICY, idempotent: false });
+    expect(response.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('still retries 429 for non-idempotent requests', async () => {
+    const fetchMock = stubFetch(429, 202);
+    const response = await fetchWithRetry('/api/test', { method: 'POST' }, undefined, { ...FAST_POLICY, idempotent: false });
+    expect(response.status).toBe(202);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry network failures for non-idempotent requests', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'));
+    vi.stubGlobal('fetch', fetchMock);
+    await expect(
+      fetchWithRetry('/api/test', { method: 'POST' }, undefined, { ...FAST_POLICY, idempotent: false })
+    ).rejects.toThrow('fetch failed');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps result order', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return ms * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([50, 10, 40, 20, 30]);
+  });
+});
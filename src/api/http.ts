@@ -0,0 +1,162 @@
+// Retry/timeout policy for render requests
+export interface RequestPolicy {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Extra attempts after the first
+  baseDelayMs: number; // First backoff delay, doubled per retry
+  maxDelayMs: number;
+  // False for requests that start paid work: only 429s are retried, since a 5xx
+  // or lost response may mean the work was started anyway
+  idempotent: boolean;
+}
+
+// Defaults, overridable with VITE_RENDER_TIMEOUT_MS / VITE_RENDER_MAX_RETRIES
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: Number(import.meta.env.VITE_RENDER_TIMEOUT_MS ?? 90_000),
+  maxRetries: Number(import.meta.env.VITE_RENDER_MAX_RETRIES ?? 2),
+  baseDelayMs: 2_000,
+  maxDelayMs: 30_000,
+  idempotent: true
+};
+
+/**
+ * Checks whether an error came from an aborted request
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Creates the error thrown when a request is cancelled
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Request was cancelled', 'AbortError');
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Maps items through an async function with at most `limit` calls in flight,
+ * keeping results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Whether a response status is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Backoff before the given retry (1-based), honouring Retry-After when present
+ */
+function getRetryDelay(attempt: number, policy: RequestPolicy, response?: Response): number {
+  const retryAfter = response?.headers.get('Retry-After');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.min(seconds * 1000, policy.maxDelayMs);
+    }
+  }
+
+  // Exponential backoff with jitter
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  return Math.min(exponential * (0.75 + Math.random() * 0.5), policy.maxDelayMs);
+}
+
+/**
+ * fetch with a per-attempt timeout, cancellation and retries with
+ * exponential backoff for 429/5xx responses and network failures
+ * (429 only for non-idempotent requests)
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  signal?: AbortSignal,
+  policy: RequestPolicy = DEFAULT_REQUEST_POLICY
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    // Abort this attempt on timeout or when the caller cancels
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, policy.timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: Response | undefined;
+    let networkError: unknown = null;
+
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (signal?.aborted) throw createAbortError();
+      if (timedOut) {
+        throw new Error(`Request timed out after ${Math.round(policy.timeoutMs / 1000)}s`);
+      }
+      networkError = err;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    const retryable = policy.idempotent
+      ? networkError !== null || (response !== undefined && isRetryableStatus(response.status))
+      : response?.status === 429;
+
+    if (!retryable || attempt >= policy.maxRetries) {
+      if (networkError !== null) throw networkError;
+      return response!;
+    }
+
+    console.warn(
+      `Request failed (${response ? response.status : 'network error'}), retry ${attempt + 1} of ${policy.maxRetries}`
+    );
+    await delay(getRetryDelay(attempt + 1, policy, response), signal);
+  }
+}
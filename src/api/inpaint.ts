@@ -0,0 +1,163 @@
+import type { DetectedRoom, InpaintProvider, InpaintRequest, Rect, RoomEdit, StylePreset } from '../types';
+import { buildRoomInpaintPrompt } from '../utils/promptBuilder';
+import { cropRoom, compositeRoom, pasteCrop } from '../utils/roomCompositor';
+import { createCanvas, loadImage } from '../utils/fileUtils';
+import { fetchWithRetry, delay } from './http';
+
+// Options for one room edit
+export interface RoomInpaintOptions {
+  request: string;
+  style: StylePreset;
+  strength: number;
+  seed: number;
+  signal?: AbortSignal;
+}
+
+// An edited image and what is needed to undo the edit
+export interface RoomInpaintResult {
+  image: string;
+  before: string; // The crop that was repainted, as it was
+  rect: Rect;
+}
+
+// Simulated latency of the stub, like the mock image provider
+const STUB_LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? 1500);
+
+/**
+ * Local stand-in for a hosted inpaint model: recolours the crop and adds a
+ * few seeded blocks, so edits are visible and deterministic per seed.
+ * Compositing back through the mask is left to the caller, as with a real provider.
+ */
+async function inpaintWithStub(request: InpaintRequest): Promise<string> {
+  if (STUB_LATENCY_MS > 0) {
+    await delay(STUB_LATENCY_MS, request.signal);
+  }
+
+  let state = request.seed >>> 0;
+  const random = () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+
+  const img = await loadImage(request.image, 'inpainting');
+  const [canvas, ctx] = createCanvas(img.width, img.height);
+
+  // Stronger edits drift further from the original colours
+  ctx.filter = `hue-rotate(${Math.round(60 + random() * 240 * request.strength)}deg) saturate(${1 + request.strength})`;
+  ctx.drawImage(img, 0, 0);
+  ctx.filter = 'none';
+
+  const size = Math.min(img.width, img.height);
+  for (let i = 0; i < 6; i++) {
+    const block = size * (0.06 + random() * 0.1);
+    ctx.fillStyle = `hsla(${Math.floor(random() * 360)}, 55%, 55%, ${0.4 + request.strength * 0.4})`;
+    ctx.fillRect(random() * (img.width - block), random() * (img.height - block), block, block);
+  }
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Inpaints with POST /api/rooms/inpaint
+ */
+async function inpaintWithApi(request: InpaintRequest): Promise<string> {
+  const response = await fetchWithRetry('/api/rooms/inpaint', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      image: request.image,
+      mask: request.mask,
+      prompt: request.prompt,
+      strength: request.strength,
+      seed: request.seed
+    })
+  }, request.signal);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Inpainting failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (typeof data.image !== 'string') {
+    throw new Error('Inpainting returned no image');
+  }
+  return data.image;
+}
+
+export const apiInpaintProvider: InpaintProvider = {
+  id: 'api',
+  name: 'Inpaint API',
+  inpaint: inpaintWithApi
+};
+
+export const stubInpaintProvider: InpaintProvider = {
+  id: 'stub',
+  name: 'Local stub',
+  inpaint: inpaintWithStub
+};
+
+// Registered inpaint providers
+export const INPAINT_PROVIDERS: Record<string, InpaintProvider> = {
+  [apiInpaintProvider.id]: apiInpaintProvider,
+  [stubInpaintProvider.id]: stubInpaintProvider
+};
+
+/**
+ * Gets the provider chosen by VITE_INPAINT_PROVIDER, the API by default; the
+ * dev server serves the endpoint too, so the stub is only used when asked for
+ */
+export function getInpaintProvider(): InpaintProvider {
+  const id = import.meta.env.VITE_INPAINT_PROVIDER || apiInpaintProvider.id;
+  const provider = INPAINT_PROVIDERS[id];
+
+  if (!provider) {
+    throw new Error(`Unknown inpaint provider: ${id}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Repaints one room of an image: crops it with padding, sends the crop and
+ * mask to the inpaint provider and feathers the result back in place.
+ * Returns the full edited image with the original crop for undo.
+ */
+export async function inpaintRoom(
+  image: string,
+  room: DetectedRoom,
+  options: RoomInpaintOptions
+): Promise<RoomInpaintResult> {
+  const crop = await cropRoom(image, room);
+
+  const patch = await getInpaintProvider().inpaint({
+    image: crop.image,
+    mask: crop.mask,
+    prompt: buildRoomInpaintPrompt(room.label, options.request, options.style),
+    strength: options.strength,
+    seed: options.seed,
+    signal: options.signal
+  });
+
+  return {
+    image: await compositeRoom(image, patch, room, crop.rect),
+    before: crop.image,
+    rect: crop.rect
+  };
+}
+
+/**
+ * Puts a room back the way it looked before an edit. With `exact` the whole
+ * crop is pasted back, which is only right when nothing else changed inside it
+ * since; otherwise the room is blended in through its mask, leaving the rest as is.
+ */
+export async function restoreRoom(
+  image: string,
+  edit: Pick<RoomEdit, 'before' | 'rect'>,
+  room: DetectedRoom,
+  exact = false
+): Promise<string> {
+  return exact
+    ? pasteCrop(image, edit.before, edit.rect)
+    : compositeRoom(image, edit.before, room, edit.rect);
+}
@@ -0,0 +1,116 @@
+import type { GenerationResult, ImageGenerationRequest, ImageProvider } from '../types';
+import { delay } from './http';
+import { createCanvas, hashString, loadImage } from '../utils/fileUtils';
+
+// Output size of the placeholder render
+const MOCK_SIZE = 1024;
+// Simulated latency so loading states can be exercised (VITE_MOCK_LATENCY_MS)
+const DEFAULT_LATENCY_MS = 1500;
+
+/**
+ * Small seeded PRNG (mulberry32) so the same request draws the same image
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Draws a placeholder "render": the input plan on an isometric slab,
+ * seeded furniture blocks and a caption identifying the request
+ */
+async function drawPlaceholder(request: ImageGenerationRequest, seed: number): Promise<string> {
+  const random = createRandom(seed);
+  const hue = seed % 360;
+
+  const [canvas, ctx] = createCanvas(MOCK_SIZE, MOCK_SIZE);
+
+  ctx.fillStyle = `hsl(${hue}, 35%, 92%)`;
+  ctx.fillRect(0, 0, MOCK_SIZE, MOCK_SIZE);
+
+  // Isometric-ish slab: plan drawn with a shear and vertical squash
+  ctx.save();
+  ctx.translate(MOCK_SIZE / 2, MOCK_SIZE * 0.18);
+  ctx.transform(0.7, 0.35, -0.7, 0.35, 0, 0);
+  const slab = MOCK_SIZE * 0.7;
+
+  ctx.fillStyle = `hsl(${hue}, 25%, 75%)`;
+  ctx.fillRect(0, 0, slab, slab);
+
+  const sourceImage = request.images[request.images.length - 1];
+  if (sourceImage) {
+    try {
+      const img = await loadImage(sourceImage, 'mock render');
+      ctx.globalAlpha = 0.85;
+      ctx.drawImage(img, 0, 0, slab, slab);
+      ctx.globalAlpha = 1;
+    } catch {
+      // Placeholder still works without the plan
+    }
+  }
+
+  // Furniture blocks
+  for (let i = 0; i < 14; i++) {
+    const size = slab * (0.04 + random() * 0.08);
+    ctx.fillStyle = `hsla(${(hue + random() * 120) % 360}, 55%, 55%, 0.8)`;
+    ctx.fillRect(random() * (slab - size), random() * (slab - size), size, size);
+  }
+  ctx.restore();
+
+  // Caption
+  const styleLine = request.prompt.match(/Style: ([^.\n]+)/)?.[1] ?? 'Refinement';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.fillRect(0, MOCK_SIZE - 120, MOCK_SIZE, 120);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 36px sans-serif';
+  ctx.fillText('MOCK RENDER', 32, MOCK_SIZE - 72);
+  ctx.font = '22px sans-serif';
+  ctx.fillText(`${styleLine.slice(0, 60)} • #${seed.toString(16).padStart(8, '0')}`, 32, MOCK_SIZE - 36);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Simulated latency of one render, in milliseconds
+ */
+function getLatency(): number {
+  return Number(import.meta.env.VITE_MOCK_LATENCY_MS ?? DEFAULT_LATENCY_MS);
+}
+
+/**
+ * Returns a deterministic placeholder render without any network access
+ */
+async function generateMock(request: ImageGenerationRequest): Promise<GenerationResult> {
+  const latency = getLatency();
+  // Walk through the same states as a real job
+  request.onStatus?.('queued');
+  if (latency > 0) {
+    await delay(latency / 3, request.signal);
+  }
+  request.onStatus?.('generating');
+  if (latency > 0) {
+    await delay((latency * 2) / 3, request.signal);
+  }
+
+  // Seed from everything that affects the output
+  const seed = hashString([request.modelKey, request.prompt, ...request.images].join('\n'));
+  const image = await drawPlaceholder(request, seed);
+
+  return {
+    image,
+    description: `Mock render for a ${request.prompt.length}-character prompt with ${request.images.length} image(s)`,
+    model: 'Mock provider'
+  };
+}
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Local mock',
+  generate: generateMock,
+  estimate: () => ({ cost: 0, seconds: getLatency() / 1000 })
+};
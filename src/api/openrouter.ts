@@ -1,200 +1,160 @@
-import type { GenerationOptions, GenerationResult, AIModel } from '../types';
-import { buildPrompt, buildRefinementPrompt, describeAnnotations } from '../utils/promptBuilder';
+import type { GenerationResult, AIModel, ImageGenerationRequest, ImageProvider } from '../types';
+import { parseImageResponse } from './responseParser';
+import { fetchWithRetry, delay, DEFAULT_REQUEST_POLICY } from './http';
 
-// API URL - use serverless function in production, direct API in development
-const API_URL = import.meta.env.DEV
-  ? 'https://openrouter.ai/api/v1/chat/completions'
-  : '/api/generate';
+// Serverless function holding the API key; the Vite dev server serves it locally too
+const API_URL = '/api/generate';
 
-// Available models for apartment visualization
+// Starting a job is paid work, so a failed start is not blindly retried
+const START_JOB_POLICY = { ...DEFAULT_REQUEST_POLICY, idempotent: false };
+
+// Render job polling
+const POLL_INTERVAL_MS = 2_000;
+const JOB_TIMEOUT_MS = Number(import.meta.env.VITE_RENDER_JOB_TIMEOUT_MS ?? 180_000);
+
+// Available models for apartment visualization; cost and time are list-price
+// and observed averages, used for estimates only
 export const AI_MODELS: Record<string, AIModel> = {
   'gemini-3-pro-image': {
     id: 'google/gemini-3-pro-image-preview',
     name: 'Gemini 3 Pro Image',
-    description: 'Best quality image generation'
+    description: 'Best quality image generation',
+    costPerImage: 0.134,
+    secondsPerImage: 30
   },
   'gemini-2.5-flash-image': {
     id: 'google/gemini-2.5-flash-image',
     name: 'Gemini 2.5 Flash Image',
-    description: 'Fast image generation'
+    description: 'Fast image generation',
+    costPerImage: 0.039,
+    secondsPerImage: 10
   }
 };
 
+export const DEFAULT_MODEL_KEY = 'gemini-3-pro-image';
+
 /**
- * Generates an isometric 3D render from a floorplan image
+ * Ensures an image is a data URL (bare base64 is assumed to be PNG)
  */
-export async function generateIsometricRender(
-  floorplanImage: string,
-  options: GenerationOptions,
-  modelKey: string = 'gemini-3-pro-image'
-): Promise<GenerationResult> {
-  const apiKey = import.meta.env.VITE_OPENROUTER_API_KEY;
-
-  // Only require API key in dev mode (serverless function has it in prod)
-  if (import.meta.env.DEV && !apiKey) {
-    throw new Error('VITE_OPENROUTER_API_KEY not found in environment');
-  }
+function toDataUrl(image: string): string {
+  return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+}
 
-  const model = AI_MODELS[modelKey];
-  if (!model) {
-    throw new Error(`Unknown model: ${modelKey}`);
-  }
+/**
+ * Throws with the error body of a failed response
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  const error = await response.text();
+  throw new Error(`API error: ${response.status} - ${error}`);
+}
 
-  // Build prompt based on options
-  let prompt: string;
+/**
+ * Starts a render job on the serverless function and polls it until it finishes,
+ * reporting each state change. Returns the raw chat completion.
+ */
+async function runRenderJob(
+  body: Record<string, unknown>,
+  request: ImageGenerationRequest
+): Promise<unknown> {
+  request.onStatus?.('uploading');
 
-  if (options.feedback && options.previousImage) {
-    // Refinement mode
-    prompt = buildRefinementPrompt(options.annotations, options.style, options.feedback);
-  } else {
-    // Initial generation
-    prompt = buildPrompt(options.annotations, options.style);
+  const startResponse = await fetchWithRetry(API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, async: true })
+  }, request.signal, START_JOB_POLICY);
+
+  if (!startResponse.ok) {
+    await throwResponseError(startResponse);
   }
 
-  // Build content array with text and image(s)
-  const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
-    {
-      type: 'text',
-      text: prompt
-    },
-    {
-      type: 'image_url',
-      image_url: {
-        url: floorplanImage.startsWith('data:')
-          ? floorplanImage
-          : `data:image/png;base64,${floorplanImage}`
-      }
-    }
-  ];
+  const { jobId } = await startResponse.json();
+  request.onStatus?.('queued');
 
-  // Add previous image if doing refinement
-  if (options.previousImage) {
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: options.previousImage.startsWith('data:')
-          ? options.previousImage
-          : `data:image/png;base64,${options.previousImage}`
-      }
-    });
-  }
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
 
-  // Build headers
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json'
-  };
+  while (Date.now() < deadline) {
+    await delay(POLL_INTERVAL_MS, request.signal);
 
-  // Add auth headers in dev mode
-  if (import.meta.env.DEV) {
-    headers['Authorization'] = `Bearer ${apiKey}`;
-    headers['HTTP-Referer'] = window.location.origin;
-    headers['X-Title'] = 'Beautiful Room';
-  }
+    const statusResponse = await fetchWithRetry(
+      `${API_URL}?jobId=${encodeURIComponent(jobId)}`,
+      { method: 'GET' },
+      request.signal
+    );
 
-  // Make request
-  const response = await fetch(API_URL, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify({
-      model: model.id,
-      messages: [
-        {
-          role: 'user',
-          content
-        }
-      ]
-    })
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`API error: ${response.status} - ${error}`);
-  }
+    if (!statusResponse.ok) {
+      await throwResponseError(statusResponse);
+    }
 
-  const data = await response.json();
+    const job = await statusResponse.json();
 
-  // Debug: log the full response structure
-  console.log('=== OpenRouter Response ===');
-  console.log('Full response:', JSON.stringify(data, null, 2).substring(0, 2000));
+    if (job.status === 'done') {
+      return job.result;
+    }
 
-  if (!data.choices || data.choices.length === 0) {
-    console.error('No choices in response:', data);
-    throw new Error('No response from AI model');
+    if (job.status === 'error') {
+      throw new Error(job.error || 'Render job failed');
+    }
+
+    request.onStatus?.(job.status);
   }
 
-  const message = data.choices[0].message;
-  const responseContent = message.content;
+  throw new Error(`Render job timed out after ${Math.round(JOB_TIMEOUT_MS / 1000)}s`);
+}
 
-  // Debug: log message structure
-  console.log('Message keys:', Object.keys(message));
-  console.log('Content type:', typeof responseContent);
-  console.log('Content is array:', Array.isArray(responseContent));
-  if (Array.isArray(responseContent)) {
-    console.log('Content parts:', responseContent.map((p: any) => ({ type: p.type, hasImageUrl: !!p.image_url, hasInlineData: !!p.inline_data })));
+/**
+ * Sends a prompt and images to OpenRouter chat completions via a render job
+ */
+async function generateWithOpenRouter(request: ImageGenerationRequest): Promise<GenerationResult> {
+  const model = AI_MODELS[request.modelKey];
+  if (!model) {
+    throw new Error(`Unknown model: ${request.modelKey}`);
   }
 
-  // Parse response to extract image and description
-  let generatedImage: string | null = null;
-  let description: string | null = null;
-
-  // Handle array content (Gemini format)
-  if (Array.isArray(responseContent)) {
-    for (const part of responseContent) {
-      if (part.type === 'image_url' && part.image_url?.url) {
-        generatedImage = part.image_url.url;
-      } else if (part.type === 'image' && part.image_url?.url) {
-        generatedImage = part.image_url.url;
-      } else if (part.image_url) {
-        generatedImage = part.image_url.url || part.image_url;
-      } else if (part.type === 'text') {
-        description = part.text;
-      } else if (part.inline_data) {
-        generatedImage = `data:${part.inline_data.mime_type};base64,${part.inline_data.data}`;
-      } else if (typeof part === 'string') {
-        description = (description || '') + part;
-      }
-    }
-  } else if (typeof responseContent === 'string') {
-    // Check for base64 image in response
-    const base64Match = responseContent.match(/data:image\/[^;]+;base64,[A-Za-z0-9+/=]+/);
-    if (base64Match) {
-      generatedImage = base64Match[0];
-      description = responseContent.replace(base64Match[0], '').trim();
-    } else {
-      description = responseContent;
-    }
-  }
+  // Build content array with text and image(s)
+  const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
+    {
+      type: 'text',
+      text: request.prompt
+    },
+    ...request.images.map(image => ({
+      type: 'image_url',
+      image_url: { url: toDataUrl(image) }
+    }))
+  ];
 
-  // Check for images array (alternate format)
-  if (!generatedImage && message.images && Array.isArray(message.images)) {
-    for (const img of message.images) {
-      if (img.type === 'image_url' && img.image_url?.url) {
-        generatedImage = img.image_url.url;
-        break;
+  const body = {
+    model: model.id,
+    messages: [
+      {
+        role: 'user',
+        content
       }
-    }
-  }
+    ]
+  };
 
-  // Check message-level image
-  if (!generatedImage && message.image) {
-    generatedImage = message.image;
-  }
+  const data = await runRenderJob(body, request);
 
-  // Debug: final result
-  console.log('=== Parsing Result ===');
-  console.log('Image found:', !!generatedImage);
-  console.log('Image type:', generatedImage ? (generatedImage.startsWith('data:') ? 'base64' : 'url') : 'none');
-  console.log('Image length:', generatedImage?.length || 0);
-  console.log('Description:', description?.substring(0, 200));
+  const parsed = parseImageResponse(data);
 
-  if (!generatedImage) {
-    console.error('No image extracted! Full message:', JSON.stringify(message, null, 2).substring(0, 3000));
+  if (!parsed.ok) {
+    throw parsed.error;
   }
 
   return {
-    image: generatedImage,
-    description,
+    image: parsed.image,
+    description: parsed.description,
     model: model.name,
-    usage: data.usage
+    usage: parsed.usage
   };
 }
+
+export const openRouterProvider: ImageProvider = {
+  id: 'openrouter',
+  name: 'OpenRouter',
+  generate: generateWithOpenRouter,
+  estimate: (modelKey) => {
+    const model = AI_MODELS[modelKey] ?? AI_MODELS[DEFAULT_MODEL_KEY];
+    return { cost: model.costPerImage, seconds: model.secondsPerImage };
+  }
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { parseImageResponse, ImageResponseError } from './responseParser';
+import * as fixtures from './__fixtures__/imageResponses';
+
+const PNG_BASE64 = fixtures.PNG_DATA_URL.split(',')[1];
+
+/**
+ * Parses a fixture that must contain an image
+ */
+function parseImage(data: unknown) {
+  const result = parseImageResponse(data);
+  if (!result.ok) throw new Error(`Expected an image, got ${result.error.kind}: ${result.error.message}`);
+  return result;
+}
+
+/**
+ * Parses a fixture that must fail
+ */
+function parseError(data: unknown): ImageResponseError {
+  const result = parseImageResponse(data);
+  if (result.ok) throw new Error('Expected an error, got an image');
+  return result.error;
+}
+
+describe('parseImageResponse', () => {
+  describe('image formats', () => {
+    it('reads image_url content parts', () => {
+      const result = parseImage(fixtures.imageUrlPart);
+      expect(result.image).toBe(fixtures.PNG_DATA_URL);
+      expect(result.description).toBe('Here is the render.');
+      expect(result.usage?.total_tokens).toBe(2490);
+    });
+
+    it('reads image_url given as a plain string', () => {
+      expect(parseImage(fixtures.imageUrlString).image).toBe(fixtures.PNG_DATA_URL);
+    });
+
+    it('reads Gemini inline_data with its mime type', () => {
+      expect(parseImage(fixtures.inlineDataSnake).image).toBe(`data:image/jpeg;base64,${PNG_BASE64}`);
+    });
+
+    it('reads camelCase inlineData', () => {
+      const result = parseImage(fixtures.inlineDataCamel);
+      expect(result.image).toBe(`data:image/webp;base64,${PNG_BASE64}`);
+      expect(result.description).toBe('Done');
+    });
+
+    it('reads the message.images array', () => {
+      const result = parseImage(fixtures.messageImages);
+      expect(result.image).toBe(fixtures.PNG_DATA_URL);
+      expect(result.description).toBe('Isometric render of the plan.');
+    });
+
+    it('reads a message-level image', () => {
+      const result = parseImage(fixtures.messageImage);
+      expect(result.image).toBe(fixtures.PNG_DATA_URL);
+      expect(result.description).toBeNull();
+    });
+
+    it('finds base64 embedded in text content', () => {
+      const result = parseImage(fixtures.base64InString);
+      expect(result.image).toBe(fixtures.PNG_DATA_URL);
+      expect(result.description).toBe('Render below:\n\nEnjoy.');
+    });
+  });
+
+  describe('errors', () => {
+    it('reports API errors', () => {
+      const error = parseError(fixtures.apiError);
+      expect(error.kind).toBe('api-error');
+      expect(error.message).toContain('Rate limit exceeded');
+    });
+
+    it('treats missing data and missing choices as empty', () => {
+      expect(parseError(null).kind).toBe('empty');
+      expect(parseError('not json').kind).toBe('empty');
+      expect(parseError(fixtures.noChoices).kind).toBe('empty');
+    });
+
+    it('treats a message with nothing in it as empty', () => {
+      expect(parseError(fixtures.emptyMessage).kind).toBe('empty');
+    });
+
+    it('reports the refusal field', () => {
+      const error = parseError(fixtures.refusalField);
+      expect(error.kind).toBe('refusal');
+      expect(error.message).toContain('I cannot help');
+    });
+
+    it('prefers the native safety finish reason over stop', () => {
+      const error = parseError(fixtures.safetyFinish);
+      expect(error.kind).toBe('refusal');
+      expect(error.finishReason).toBe('IMAGE_SAFETY');
+    });
+
+    it('reports truncated output', () => {
+      const error = parseError(fixtures.truncated);
+      expect(error.kind).toBe('truncated');
+      expect(error.description).toBe('The render shows');
+    });
+
+    it('recognises refusals written as text', () => {
+      expect(parseError(fixtures.refusalText).kind).toBe('refusal');
+    });
+
+    it('reports text without an image', () => {
+      const error = parseError(fixtures.textOnly);
+      expect(error.kind).toBe('text-only');
+      expect(error.description).toContain('three bedrooms');
+    });
+  });
+});
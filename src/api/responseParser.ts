@@ -0,0 +1,208 @@
+import type { GenerationResult } from '../types';
+import { isJsonObject, type JsonObject } from '../utils/json';
+
+// Why a response contained no image
+export type ImageResponseErrorKind =
+  | 'api-error' // Error object returned in place of choices
+  | 'empty' // No choices, or a message with nothing in it
+  | 'refusal' // Model or safety filter declined the request
+  | 'truncated' // Output cut off by token limits
+  | 'text-only'; // Model answered with text but no image
+
+export class ImageResponseError extends Error {
+  kind: ImageResponseErrorKind;
+  finishReason: string | null;
+  description: string | null;
+
+  constructor(
+    kind: ImageResponseErrorKind,
+    message: string,
+    finishReason: string | null = null,
+    description: string | null = null
+  ) {
+    super(message);
+    this.name = 'ImageResponseError';
+    this.kind = kind;
+    this.finishReason = finishReason;
+    this.description = description;
+  }
+}
+
+export type ParsedImageResponse =
+  | {
+      ok: true;
+      image: string;
+      description: string | null;
+      usage?: GenerationResult['usage'];
+    }
+  | {
+      ok: false;
+      error: ImageResponseError;
+    };
+
+// Finish reasons reported by OpenRouter (finish_reason) and Gemini (native_finish_reason)
+const TRUNCATED_REASONS = ['length', 'max_tokens'];
+const REFUSAL_REASONS = [
+  'content_filter',
+  'safety',
+  'image_safety',
+  'prohibited_content',
+  'blocklist',
+  'spii',
+  'recitation'
+];
+
+// Phrases that mark a text-only answer as a refusal
+const REFUSAL_PATTERN = /\b(I can(?:'|no)t|I cannot|I am unable|I'm unable|unable to (?:create|generate|help)|I'm sorry|I apologi[sz]e|against (?:my|the) (?:policy|guidelines))\b/i;
+
+const DATA_URL_PATTERN = /data:image\/[^;]+;base64,[A-Za-z0-9+/=]+/;
+
+/**
+ * Returns a value if it is a non-empty string
+ */
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Returns the image URL carried by a content part or image entry, if any
+ */
+function extractPartImage(part: JsonObject): string | null {
+  // { type: 'image_url' | 'image', image_url: { url } } or { image_url: 'url' }
+  const imageUrl = part.image_url;
+  const url = isJsonObject(imageUrl) ? nonEmptyString(imageUrl.url) : nonEmptyString(imageUrl);
+  if (url) return url;
+
+  // Gemini inline data, snake_case or camelCase
+  const inline = part.inline_data ?? part.inlineData;
+  if (isJsonObject(inline)) {
+    const data = nonEmptyString(inline.data);
+    if (data) {
+      const mimeType = nonEmptyString(inline.mime_type) ?? nonEmptyString(inline.mimeType) ?? 'image/png';
+      return `data:${mimeType};base64,${data}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the image and text in a chat completion message
+ */
+function extractFromMessage(message: JsonObject): { image: string | null; text: string | null } {
+  let image: string | null = null;
+  const texts: string[] = [];
+  const content = message.content;
+
+  if (Array.isArray(content)) {
+    for (const part of content) {
+      if (typeof part === 'string') {
+        texts.push(part);
+        continue;
+      }
+      if (!isJsonObject(part)) continue;
+
+      const partImage = extractPartImage(part);
+      if (partImage) {
+        image = image ?? partImage;
+      } else if (part.type === 'text' && typeof part.text === 'string') {
+        texts.push(part.text);
+      }
+    }
+  } else if (typeof content === 'string') {
+    // Base64 image embedded in the text
+    const match = content.match(DATA_URL_PATTERN);
+    if (match) {
+      image = match[0];
+      texts.push(content.replace(match[0], ''));
+    } else {
+      texts.push(content);
+    }
+  }
+
+  // Images array (OpenRouter image output format)
+  if (!image && Array.isArray(message.images)) {
+    for (const entry of message.images) {
+      const entryImage = isJsonObject(entry) ? extractPartImage(entry) : null;
+      if (entryImage) {
+        image = entryImage;
+        break;
+      }
+    }
+  }
+
+  // Message-level image
+  if (!image) {
+    image = nonEmptyString(message.image);
+  }
+
+  const text = texts.join('').trim();
+  return { image, text: text || null };
+}
+
+/**
+ * Works out why a response without an image has none
+ */
+function classifyMissingImage(
+  finishReasons: string[],
+  refusal: string | null,
+  text: string | null
+): ImageResponseError {
+  const reasons = finishReasons.map(r => r.toLowerCase());
+  const finishReason = finishReasons[0] ?? null;
+
+  if (refusal) {
+    return new ImageResponseError('refusal', `Model refused: ${refusal}`, finishReason, text);
+  }
+
+  if (reasons.some(r => REFUSAL_REASONS.includes(r))) {
+    return new ImageResponseError('refusal', `Blocked by safety filter (${finishReason})`, finishReason, text);
+  }
+
+  if (reasons.some(r => TRUNCATED_REASONS.includes(r))) {
+    return new ImageResponseError('truncated', 'Response was cut off before an image was returned', finishReason, text);
+  }
+
+  if (text && REFUSAL_PATTERN.test(text)) {
+    return new ImageResponseError('refusal', `Model declined: ${text.slice(0, 200)}`, finishReason, text);
+  }
+
+  if (text) {
+    return new ImageResponseError('text-only', 'Model returned text but no image', finishReason, text);
+  }
+
+  return new ImageResponseError('empty', 'Model returned an empty response', finishReason, null);
+}
+
+/**
+ * Parses an OpenRouter/Gemini chat completion into an image or a classified error
+ */
+export function parseImageResponse(data: unknown): ParsedImageResponse {
+  if (!isJsonObject(data)) {
+    return { ok: false, error: new ImageResponseError('empty', 'No response from AI model') };
+  }
+
+  if (data.error) {
+    const message = (isJsonObject(data.error) ? nonEmptyString(data.error.message) : null) ?? String(data.error);
+    return { ok: false, error: new ImageResponseError('api-error', `API error: ${message}`) };
+  }
+
+  const choice = Array.isArray(data.choices) ? data.choices[0] : null;
+  if (!isJsonObject(choice) || !isJsonObject(choice.message)) {
+    return { ok: false, error: new ImageResponseError('empty', 'No response from AI model') };
+  }
+
+  const { image, text } = extractFromMessage(choice.message);
+
+  if (image) {
+    const usage = isJsonObject(data.usage) ? data.usage as GenerationResult['usage'] : undefined;
+    return { ok: true, image, description: text, usage };
+  }
+
+  // Gemini's own reason first - OpenRouter often reports plain 'stop'
+  const finishReasons = [choice.native_finish_reason, choice.finish_reason]
+    .filter((r): r is string => typeof r === 'string');
+  const refusal = nonEmptyString(choice.message.refusal);
+
+  return { ok: false, error: classifyMissingImage(finishReasons, refusal, text) };
+}
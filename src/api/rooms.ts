@@ -0,0 +1,88 @@
+import type { DetectedRoom, RoomDetector } from '../types';
+import { hashString } from '../utils/fileUtils';
+import { fetchWithRetry } from './http';
+
+// Detections already loaded this session, by image key
+const memoryCache = new Map<string, DetectedRoom[]>();
+
+/**
+ * Detects rooms with POST /api/rooms/detect
+ */
+async function detectWithApi(image: string, signal?: AbortSignal): Promise<DetectedRoom[]> {
+  const response = await fetchWithRetry('/api/rooms/detect', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ imageUrl: image })
+  }, signal);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Room detection failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!Array.isArray(data.rooms)) {
+    throw new Error('Room detection returned no rooms');
+  }
+  return data.rooms;
+}
+
+export const apiRoomDetector: RoomDetector = {
+  id: 'api',
+  name: 'Room detection API',
+  detect: detectWithApi
+};
+
+// Registered room detectors
+export const ROOM_DETECTORS: Record<string, RoomDetector> = {
+  [apiRoomDetector.id]: apiRoomDetector
+};
+
+/**
+ * Gets the detector chosen by VITE_ROOM_DETECTOR. The endpoint also runs on the
+ * dev server, where it uses its stub provider unless ROOM_DETECT_PROVIDER says otherwise.
+ */
+export function getRoomDetector(): RoomDetector {
+  const id = import.meta.env.VITE_ROOM_DETECTOR || apiRoomDetector.id;
+  const detector = ROOM_DETECTORS[id];
+
+  if (!detector) {
+    throw new Error(`Unknown room detector: ${id}`);
+  }
+
+  return detector;
+}
+
+/**
+ * Detects the rooms in an image, reusing earlier results for the same image
+ */
+export async function detectRooms(image: string, signal?: AbortSignal): Promise<DetectedRoom[]> {
+  const detector = getRoomDetector();
+  const key = `${detector.id}:${hashString(image).toString(16)}:${image.length}`;
+
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  const { getCachedRooms, cacheRooms } = await import('./storage');
+
+  try {
+    const stored = await getCachedRooms(key);
+    if (stored) {
+      memoryCache.set(key, stored);
+      return stored;
+    }
+  } catch (err) {
+    console.error('Failed to read room cache:', err);
+  }
+
+  const rooms = await detector.detect(image, signal);
+  memoryCache.set(key, rooms);
+
+  try {
+    await cacheRooms(key, rooms);
+  } catch (err) {
+    console.error('Failed to cache rooms:', err);
+  }
+
+  return rooms;
+}
@@ -1,9 +1,11 @@
 import { openDB, type IDBPDatabase } from 'idb';
-import type { LocalProject } from '../types';
+import type { CustomStylePreset, DetectedRoom, LocalProject } from '../types';
 
 const DB_NAME = 'homevision';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const PROJECTS_STORE = 'projects';
+const ROOMS_STORE = 'rooms'; // Room detections keyed by source image
+const STYLES_STORE = 'styles'; // User-defined style presets
 
 let dbPromise: Promise<IDBPDatabase> | null = null;
 
@@ -20,6 +22,16 @@ async function getDB(): Promise<IDBPDatabase> {
           store.createIndex('clientId', 'clientId');
           store.createIndex('createdAt', 'createdAt');
         }
+
+        // Added in version 2
+        if (!db.objectStoreNames.contains(ROOMS_STORE)) {
+          db.createObjectStore(ROOMS_STORE, { keyPath: 'key' });
+        }
+
+        // Added in version 3
+        if (!db.objectStoreNames.contains(STYLES_STORE)) {
+          db.createObjectStore(STYLES_STORE, { keyPath: 'value' });
+        }
       }
     });
   }
@@ -81,6 +93,48 @@ export async function clearLocalProjects(): Promise<void> {
   await db.clear(PROJECTS_STORE);
 }
 
+/**
+ * Gets cached room detections for an image key
+ */
+export async function getCachedRooms(key: string): Promise<DetectedRoom[] | undefined> {
+  const db = await getDB();
+  const entry = await db.get(ROOMS_STORE, key);
+  return entry?.rooms;
+}
+
+/**
+ * Caches room detections for an image key
+ */
+export async function cacheRooms(key: string, rooms: DetectedRoom[]): Promise<void> {
+  const db = await getDB();
+  await db.put(ROOMS_STORE, { key, rooms, createdAt: Date.now() });
+}
+
+/**
+ * Gets all user-defined style presets, oldest first
+ */
+export async function getCustomStylePresets(): Promise<CustomStylePreset[]> {
+  const db = await getDB();
+  const presets: CustomStylePreset[] = await db.getAll(STYLES_STORE);
+  return presets.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Saves (creates or replaces) a user-defined style preset
+ */
+export async function saveCustomStylePreset(preset: CustomStylePreset): Promise<void> {
+  const db = await getDB();
+  await db.put(STYLES_STORE, preset);
+}
+
+/**
+ * Deletes a user-defined style preset
+ */
+export async function deleteCustomStylePreset(value: string): Promise<void> {
+  const db = await getDB();
+  await db.delete(STYLES_STORE, value);
+}
+
 // Remote storage functions (for Vercel Blob + KV)
 
 /**
@@ -1,12 +1,40 @@
 import { createSignal, createEffect, For, Index, Show } from 'solid-js';
 import type { Annotation, AnnotationType, Point } from '../types';
+import { getPointsCenter, rectCorners, normalizedRectCorners, smoothPath, simplifyPath } from '../utils/annotationUtils';
+import { createLongPress } from '../utils/pointerUtils';
+import { serializeAnnotations, parseAnnotationDocument } from '../utils/annotationSchema';
 
 interface AnnotationLayerProps {
   annotations: Annotation[];
   onAnnotationsChange: (annotations: Annotation[]) => void;
 }
 
-type Tool = 'select' | 'label' | 'arrow' | 'keep' | 'change';
+type Tool = 'select' | 'label' | 'arrow' | 'keep' | 'change' | 'path';
+type RegionShape = 'rect' | 'polygon';
+
+// How close (0-100 units) a click must be to the first vertex to close a polygon
+const CLOSE_DISTANCE = 2;
+
+// Freehand stroke widths, in 0-100 units
+const MIN_STROKE_WIDTH = 0.3;
+const MAX_STROKE_WIDTH = 4;
+// Skip pointer samples closer than this to the previous one
+const PATH_SAMPLE_DISTANCE = 0.3;
+
+const REGION_COLORS: Record<'keep' | 'change', string> = {
+  keep: '#10b981',
+  change: '#f59e0b'
+};
+
+const isRegionTool = (tool: Tool): tool is 'keep' | 'change' => tool === 'keep' || tool === 'change';
+
+// Whether points are an axis-aligned rectangle in rectCorners order
+const isRectangle = (points: Point[]): boolean => {
+  if (points.length !== 4) return false;
+  const [p0, p1, p2, p3] = points;
+  const same = (a: number, b: number) => Math.abs(a - b) < 0.01;
+  return same(p0.y, p1.y) && same(p1.x, p2.x) && same(p2.y, p3.y) && same(p3.x, p0.x);
+};
 
 export default function AnnotationLayer(props: AnnotationLayerProps) {
   const [activeTool, setActiveTool] = createSignal<Tool>('select');
@@ -15,12 +43,38 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
   const [currentShape, setCurrentShape] = createSignal<Annotation | null>(null);
   const [nextId, setNextId] = createSignal(1);
 
+  // Region drawing state
+  const [regionShape, setRegionShape] = createSignal<RegionShape>('rect');
+  const [drawStart, setDrawStart] = createSignal<Point>({ x: 0, y: 0 });
+  const [hoverPos, setHoverPos] = createSignal<Point | null>(null);
+
+  // Freehand brush width
+  const [strokeWidth, setStrokeWidth] = createSignal(1);
+
   // Dragging state
   const [dragging, setDragging] = createSignal<string | null>(null);
   const [dragId, setDragId] = createSignal<number | null>(null);
   const [dragOffset, setDragOffset] = createSignal({ x: 0, y: 0 });
 
+  // Undo/redo history - snapshots of the annotations before each change
+  const [undoStack, setUndoStack] = createSignal<Annotation[][]>([]);
+  const [redoStack, setRedoStack] = createSignal<Annotation[][]>([]);
+  // Consecutive changes with the same key (one drag, typing in one field) share a step
+  let lastHistoryKey: string | null = null;
+  let lastEmitted: Annotation[] | null = null;
+  let dragSession = 0;
+
+  // Pointers drawing or dragging on the layer; a second finger hands over to pinch/pan
+  const activePointers = new Set<number>();
+  // Touch: hold an annotation to select it, hold a selected one to delete it
+  const longPress = createLongPress();
+
+  // Import/export feedback
+  const [fileMessage, setFileMessage] = createSignal<string | null>(null);
+  let fileMessageTimer: ReturnType<typeof setTimeout> | undefined;
+
   let containerRef: HTMLDivElement | undefined;
+  let importInputRef: HTMLInputElement | undefined;
 
   // Initialize next ID based on existing annotations
   createEffect(() => {
@@ -30,8 +84,82 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
     }
   });
 
-  // Get mouse position relative to container (0-100 scale)
-  const getMousePos = (e: MouseEvent): Point => {
+  // Switching tool or region shape abandons a half-drawn shape
+  createEffect(() => {
+    activeTool();
+    regionShape();
+    setCurrentShape(null);
+    setIsDrawing(false);
+    setHoverPos(null);
+  });
+
+  // Annotations replaced from outside (new plan, crop remap) start a fresh history
+  createEffect(() => {
+    const current = props.annotations;
+    if (current !== lastEmitted) {
+      setUndoStack([]);
+      setRedoStack([]);
+      lastHistoryKey = null;
+    }
+  });
+
+  // Apply a change and record it in the history
+  const commit = (next: Annotation[], historyKey: string | null = null) => {
+    if (historyKey === null || historyKey !== lastHistoryKey) {
+      setUndoStack(stack => [...stack, props.annotations]);
+    }
+    setRedoStack([]);
+    lastHistoryKey = historyKey;
+    emit(next);
+  };
+
+  const emit = (next: Annotation[]) => {
+    lastEmitted = next;
+    props.onAnnotationsChange(next);
+  };
+
+  const undo = () => {
+    const stack = undoStack();
+    if (stack.length === 0) return;
+
+    setRedoStack(redo => [...redo, props.annotations]);
+    setUndoStack(stack.slice(0, -1));
+    lastHistoryKey = null;
+    setSelectedId(null);
+    emit(stack[stack.length - 1]);
+  };
+
+  const redo = () => {
+    const stack = redoStack();
+    if (stack.length === 0) return;
+
+    setUndoStack(undo => [...undo, props.annotations]);
+    setRedoStack(stack.slice(0, -1));
+    lastHistoryKey = null;
+    setSelectedId(null);
+    emit(stack[stack.length - 1]);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes; returns whether it was handled
+  const handleHistoryKey = (e: KeyboardEvent): boolean => {
+    if (!(e.ctrlKey || e.metaKey)) return false;
+    const key = e.key.toLowerCase();
+
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+      return true;
+    }
+    if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+      return true;
+    }
+    return false;
+  };
+
+  // Get pointer position relative to container (0-100 scale)
+  const getPointerPos = (e: PointerEvent): Point => {
     if (!containerRef) return { x: 0, y: 0 };
     const rect = containerRef.getBoundingClientRect();
     return {
@@ -40,19 +168,61 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
     };
   };
 
-  // Handle mouse down - start drawing or select
-  const handleMouseDown = (e: MouseEvent) => {
+  // Track a pointer, returning false when it is a second finger that starts a pinch
+  const trackPointer = (e: PointerEvent): boolean => {
+    if (activePointers.size > 0) {
+      cancelGesture();
+      return false;
+    }
+    activePointers.add(e.pointerId);
+    containerRef?.setPointerCapture(e.pointerId);
+    return true;
+  };
+
+  // Drop whatever the first pointer was doing (drawing, dragging, long-press)
+  const cancelGesture = () => {
+    activePointers.clear();
+    longPress.cancel();
+    setDragging(null);
+    setDragId(null);
+    setCurrentShape(null);
+    setIsDrawing(false);
+    setHoverPos(null);
+  };
+
+  // Handle pointer down - start drawing or select
+  const handlePointerDown = (e: PointerEvent) => {
     if ((e.target as HTMLElement).closest('.annotation-label') ||
         (e.target as HTMLElement).closest('.annotation-toolbar')) return;
 
-    const pos = getMousePos(e);
+    const pos = getPointerPos(e);
     const tool = activeTool();
 
+    // Empty area in select mode: let the preview pan
     if (tool === 'select') {
       setSelectedId(null);
       return;
     }
 
+    if (!trackPointer(e)) return;
+
+    // Keep a surrounding pan/zoom container from panning while drawing
+    e.stopPropagation();
+
+    // Polygon in progress: add a vertex, or close it on the first vertex
+    const drawing = currentShape();
+    if (isDrawing() && drawing?.points && isRegionTool(tool) && regionShape() === 'polygon') {
+      const first = drawing.points[0];
+      // Fingers are less precise than a mouse
+      const closeDistance = e.pointerType === 'mouse' ? CLOSE_DISTANCE : CLOSE_DISTANCE * 2.5;
+      if (drawing.points.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) < closeDistance) {
+        finishPolygon();
+      } else {
+        setCurrentShape({ ...drawing, points: [...drawing.points, pos] });
+      }
+      return;
+    }
+
     setIsDrawing(true);
     setSelectedId(null);
 
@@ -67,14 +237,21 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
         y: pos.y,
         text: ''
       };
-      props.onAnnotationsChange([...props.annotations, newAnnotation]);
+      commit([...props.annotations, newAnnotation]);
       setSelectedId(id);
       setNextId(n => n + 1);
       setIsDrawing(false);
       return;
     }
 
-    if (tool === 'arrow') {
+    if (tool === 'path') {
+      setCurrentShape({
+        id,
+        type: 'path',
+        points: [pos],
+        strokeWidth: strokeWidth()
+      });
+    } else if (tool === 'arrow') {
       setCurrentShape({
         id,
         type: 'arrow',
@@ -83,38 +260,88 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
         toX: pos.x,
         toY: pos.y
       });
-    } else if (tool === 'keep' || tool === 'change') {
+    } else if (isRegionTool(tool)) {
+      setDrawStart(pos);
       setCurrentShape({
         id,
         type: tool,
         x: pos.x,
         y: pos.y,
-        points: [pos]
+        text: '',
+        points: regionShape() === 'rect' ? rectCorners(pos, pos) : [pos]
       });
     }
   };
 
-  // Handle mouse move
-  const handleMouseMove = (e: MouseEvent) => {
-    const pos = getMousePos(e);
+  // Close the polygon being drawn, dropping it if it has too few vertices
+  const finishPolygon = () => {
+    const shape = currentShape();
+    if (!shape?.points) return;
+
+    // A double-click adds the same vertex twice
+    const points = shape.points.filter((p, i, all) =>
+      i === 0 || Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y) > 0.5
+    );
+
+    if (points.length >= 3) {
+      const center = getPointsCenter(points);
+      commit([...props.annotations, { ...shape, points, x: center.x, y: center.y }]);
+      setSelectedId(shape.id);
+      setNextId(n => n + 1);
+    }
+
+    setCurrentShape(null);
+    setIsDrawing(false);
+    setHoverPos(null);
+  };
+
+  // Handle pointer move
+  const handlePointerMove = (e: PointerEvent) => {
+    longPress.move(e);
+    const pos = getPointerPos(e);
 
     // Handle dragging existing annotation
     if (dragging() && dragId()) {
       const shapeId = dragId()!;
+      const mode = dragging()!;
       const updated = props.annotations.map(a => {
         if (a.id !== shapeId) return a;
 
-        if (a.type === 'label' || a.type === 'keep' || a.type === 'change') {
+        if (a.points && mode.startsWith('vertex-')) {
+          // Move one vertex; rectangles stay rectangles
+          const index = Number(mode.slice('vertex-'.length));
+          let points = a.points.map((p, i) => (i === index ? pos : p));
+          if (isRectangle(a.points)) {
+            // Span from the opposite corner, then keep dragging whichever corner
+            // is now under the pointer (it changes when the drag crosses an edge)
+            const opposite = a.points[(index + 2) % 4];
+            points = normalizedRectCorners(opposite, pos);
+            const right = pos.x >= opposite.x;
+            const bottom = pos.y >= opposite.y;
+            setDragging(`vertex-${bottom ? (right ? 2 : 3) : (right ? 1 : 0)}`);
+          }
+          const center = getPointsCenter(points);
+          return { ...a, points, x: center.x, y: center.y };
+        } else if (a.type === 'label' || a.type === 'keep' || a.type === 'change') {
+          const x = pos.x - dragOffset().x;
+          const y = pos.y - dragOffset().y;
+          const dx = x - (a.x ?? 0);
+          const dy = y - (a.y ?? 0);
           return {
             ...a,
-            x: pos.x - dragOffset().x,
-            y: pos.y - dragOffset().y
+            x,
+            y,
+            points: a.points?.map(p => ({ x: p.x + dx, y: p.y + dy }))
           };
-        } else if (a.type === 'arrow' && dragging() === 'from') {
+        } else if (a.type === 'arrow' && mode === 'from') {
           return { ...a, fromX: pos.x, fromY: pos.y };
-        } else if (a.type === 'arrow' && dragging() === 'to') {
+        } else if (a.type === 'arrow' && mode === 'to') {
           return { ...a, toX: pos.x, toY: pos.y };
-        } else if (a.type === 'arrow' && dragging() === 'whole') {
+        } else if (a.type === 'path' && a.points) {
+          const dx = pos.x - dragOffset().x - a.points[0].x;
+          const dy = pos.y - dragOffset().y - a.points[0].y;
+          return { ...a, points: a.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+        } else if (a.type === 'arrow' && mode === 'whole') {
           const dx = a.toX! - a.fromX!;
           const dy = a.toY! - a.fromY!;
           const newFromX = pos.x - dragOffset().x;
@@ -129,7 +356,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
         }
         return a;
       });
-      props.onAnnotationsChange(updated);
+      commit(updated, `drag-${dragSession}`);
       return;
     }
 
@@ -140,11 +367,23 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
 
     if (shape.type === 'arrow') {
       setCurrentShape({ ...shape, toX: pos.x, toY: pos.y });
+    } else if (shape.type === 'path') {
+      const last = shape.points![shape.points!.length - 1];
+      if (Math.hypot(pos.x - last.x, pos.y - last.y) >= PATH_SAMPLE_DISTANCE) {
+        setCurrentShape({ ...shape, points: [...shape.points!, pos] });
+      }
+    } else if (isRegionTool(activeTool()) && regionShape() === 'rect') {
+      setCurrentShape({ ...shape, points: rectCorners(drawStart(), pos) });
+    } else if (isRegionTool(activeTool())) {
+      setHoverPos(pos);
     }
   };
 
   // Handle mouse up
-  const handleMouseUp = () => {
+  const handlePointerUp = (e: PointerEvent) => {
+    activePointers.delete(e.pointerId);
+    longPress.cancel();
+
     if (dragging()) {
       setDragging(null);
       setDragId(null);
@@ -153,19 +392,32 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
 
     if (!isDrawing() || !currentShape()) return;
 
-    const shape = currentShape()!;
+    let shape = currentShape()!;
     let isValid = false;
 
+    // Polygons are closed by clicking, not by releasing
+    if (isRegionTool(activeTool()) && regionShape() === 'polygon') return;
+
     if (shape.type === 'arrow') {
       const dist = Math.sqrt(
         Math.pow(shape.toX! - shape.fromX!, 2) +
         Math.pow(shape.toY! - shape.fromY!, 2)
       );
       isValid = dist > 3;
+    } else if (shape.type === 'path') {
+      // Drop pointer jitter, round off the corners, then thin out again
+      const points = simplifyPath(smoothPath(simplifyPath(shape.points!, 0.25)), 0.05);
+      isValid = points.length >= 2;
+      shape = { ...shape, points };
+    } else if (shape.points) {
+      const [a, , c] = shape.points;
+      isValid = Math.abs(c.x - a.x) > 2 && Math.abs(c.y - a.y) > 2;
+      const center = getPointsCenter(shape.points);
+      shape = { ...shape, x: center.x, y: center.y };
     }
 
     if (isValid) {
-      props.onAnnotationsChange([...props.annotations, shape]);
+      commit([...props.annotations, shape]);
       setSelectedId(shape.id);
       setNextId(n => n + 1);
     }
@@ -175,18 +427,37 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
   };
 
   // Start dragging
-  const startDrag = (id: number, dragType: string, e: MouseEvent) => {
+  const startDrag = (id: number, dragType: string, e: PointerEvent) => {
     e.stopPropagation();
-    const pos = getMousePos(e);
+    if (!trackPointer(e)) return;
+
+    const pos = getPointerPos(e);
     const shape = props.annotations.find(a => a.id === id);
     if (!shape) return;
 
+    if (e.pointerType !== 'mouse') {
+      const wasSelected = selectedId() === id;
+      longPress.start(e, () => {
+        setDragging(null);
+        setDragId(null);
+        if (wasSelected) {
+          deleteAnnotation(id);
+        } else {
+          setSelectedId(id);
+        }
+        navigator.vibrate?.(30);
+      });
+    }
+
     if (shape.type === 'label' || shape.type === 'keep' || shape.type === 'change') {
       setDragOffset({ x: pos.x - (shape.x || 0), y: pos.y - (shape.y || 0) });
     } else if (shape.type === 'arrow') {
       setDragOffset({ x: pos.x - (shape.fromX || 0), y: pos.y - (shape.fromY || 0) });
+    } else if (shape.type === 'path' && shape.points) {
+      setDragOffset({ x: pos.x - shape.points[0].x, y: pos.y - shape.points[0].y });
     }
 
+    dragSession++;
     setDragging(dragType);
     setDragId(id);
     setSelectedId(id);
@@ -203,28 +474,201 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
     const updated = props.annotations.map(a =>
       a.id === id ? { ...a, text } : a
     );
-    props.onAnnotationsChange(updated);
+    commit(updated, `text-${id}`);
   };
 
   // Delete annotation
   const deleteAnnotation = (id: number) => {
-    props.onAnnotationsChange(props.annotations.filter(a => a.id !== id));
+    commit(props.annotations.filter(a => a.id !== id));
     if (selectedId() === id) setSelectedId(null);
   };
 
   // Handle keyboard
   const handleKeyDown = (e: KeyboardEvent) => {
+    if (handleHistoryKey(e)) return;
     if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId() && !(e.target as HTMLElement).matches('input')) {
       deleteAnnotation(selectedId()!);
     }
+    if (e.key === 'Enter' && isDrawing() && regionShape() === 'polygon') {
+      finishPolygon();
+    }
     if (e.key === 'Escape') {
       setActiveTool('select');
       setSelectedId(null);
       setCurrentShape(null);
       setIsDrawing(false);
+      setHoverPos(null);
+    }
+  };
+
+  const showFileMessage = (message: string) => {
+    clearTimeout(fileMessageTimer);
+    setFileMessage(message);
+    fileMessageTimer = setTimeout(() => setFileMessage(null), 4000);
+  };
+
+  // Download the annotations as a versioned JSON file
+  const handleExport = () => {
+    const blob = new Blob([serializeAnnotations(props.annotations)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `beautiful-room-annotations-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Replace the annotations with an exported file (undoable)
+  const handleImport = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseAnnotationDocument(await file.text());
+      cancelGesture();
+      commit(imported);
+      setSelectedId(null);
+      showFileMessage(`Importerte ${imported.length} merknader`);
+    } catch (err) {
+      console.error('Annotation import failed:', err);
+      showFileMessage(err instanceof Error ? err.message : 'Kunne ikke importere merknader');
     }
   };
 
+  // Render keep/change region
+  const renderRegion = (region: Annotation) => {
+    const isSelected = selectedId() === region.id;
+    const color = REGION_COLORS[region.type as 'keep' | 'change'];
+    const points = region.points!;
+
+    return (
+      <g
+        class={`annotation-item ${isSelected ? 'selected' : ''}`}
+        onClick={(e) => selectAnnotation(region.id, e)}
+      >
+        <polygon
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill={color}
+          fill-opacity={isSelected ? 0.3 : 0.18}
+          stroke={color}
+          stroke-width="0.4"
+          stroke-dasharray={region.type === 'keep' ? '1.5 1' : undefined}
+          style={{ cursor: activeTool() === 'select' ? 'move' : 'inherit' }}
+          onPointerDown={(e) => activeTool() === 'select' && startDrag(region.id, 'whole', e)}
+        />
+        {isSelected && (
+          <For each={points}>
+            {(point, index) => (
+              <circle
+                cx={point.x}
+                cy={point.y}
+                r="1.2"
+                fill="white"
+                stroke={color}
+                stroke-width="0.3"
+                style={{ cursor: 'grab' }}
+                onPointerDown={(e) => startDrag(region.id, `vertex-${index()}`, e)}
+              />
+            )}
+          </For>
+        )}
+      </g>
+    );
+  };
+
+  // Render freehand path
+  const renderPath = (path: Annotation, isPreview = false) => {
+    const isSelected = selectedId() === path.id;
+    const points = path.points!.map(p => `${p.x},${p.y}`).join(' ');
+    const width = path.strokeWidth ?? 1;
+
+    return (
+      <g
+        class={`annotation-item ${isSelected ? 'selected' : ''}`}
+        onClick={(e) => !isPreview && selectAnnotation(path.id, e)}
+      >
+        {!isPreview && (
+          <polyline
+            points={points}
+            fill="none"
+            stroke="transparent"
+            stroke-width={Math.max(width, 2)}
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            style={{ cursor: activeTool() === 'select' ? 'move' : 'inherit' }}
+            onPointerDown={(e) => activeTool() === 'select' && startDrag(path.id, 'whole', e)}
+          />
+        )}
+        {isSelected && !isPreview && (
+          <polyline
+            points={points}
+            fill="none"
+            stroke="white"
+            stroke-width={width + 0.8}
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            style={{ 'pointer-events': 'none' }}
+          />
+        )}
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#4f46e5"
+          stroke-width={width}
+          stroke-linecap="round"
+          stroke-linejoin="round"
+          opacity={isPreview ? 0.7 : 1}
+          style={{ 'pointer-events': 'none' }}
+        />
+      </g>
+    );
+  };
+
+  // Render the region being drawn
+  const renderRegionPreview = (shape: Annotation) => {
+    const color = REGION_COLORS[shape.type as 'keep' | 'change'];
+    const points = shape.points!;
+
+    if (regionShape() === 'rect') {
+      return (
+        <polygon
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill={color}
+          fill-opacity="0.15"
+          stroke={color}
+          stroke-width="0.4"
+          style={{ 'pointer-events': 'none' }}
+        />
+      );
+    }
+
+    const trail = hoverPos() ? [...points, hoverPos()!] : points;
+
+    return (
+      <g style={{ 'pointer-events': 'none' }}>
+        <polyline
+          points={trail.map(p => `${p.x},${p.y}`).join(' ')}
+          fill={color}
+          fill-opacity="0.15"
+          stroke={color}
+          stroke-width="0.4"
+        />
+        <circle
+          cx={points[0].x}
+          cy={points[0].y}
+          r={points.length >= 3 ? 1.6 : 1}
+          fill="white"
+          stroke={color}
+          stroke-width="0.3"
+        />
+      </g>
+    );
+  };
+
   // Render arrow
   const renderArrow = (arrow: Annotation, isPreview = false) => {
     const isSelected = selectedId() === arrow.id;
@@ -250,7 +694,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
             stroke="transparent"
             stroke-width="2"
             style={{ cursor: 'move' }}
-            onMouseDown={(e) => startDrag(arrow.id, 'whole', e)}
+            onPointerDown={(e) => startDrag(arrow.id, 'whole', e)}
           />
         )}
         <line
@@ -278,7 +722,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
               stroke="#4f46e5"
               stroke-width="0.3"
               style={{ cursor: 'grab' }}
-              onMouseDown={(e) => startDrag(arrow.id, 'from', e)}
+              onPointerDown={(e) => startDrag(arrow.id, 'from', e)}
             />
             <circle
               cx={arrow.toX}
@@ -288,7 +732,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
               stroke="#4f46e5"
               stroke-width="0.3"
               style={{ cursor: 'grab' }}
-              onMouseDown={(e) => startDrag(arrow.id, 'to', e)}
+              onPointerDown={(e) => startDrag(arrow.id, 'to', e)}
             />
           </>
         )}
@@ -300,15 +744,16 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
     <div
       ref={containerRef}
       class={`annotation-layer ${activeTool() !== 'select' ? 'drawing' : ''}`}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDblClick={() => isDrawing() && regionShape() === 'polygon' && finishPolygon()}
       onKeyDown={handleKeyDown}
       tabIndex={0}
     >
       {/* Toolbar */}
-      <div class="annotation-toolbar">
+      <div class="annotation-toolbar" onPointerDown={(e) => e.stopPropagation()}>
         <button
           class={`tool-btn ${activeTool() === 'select' ? 'active' : ''}`}
           onClick={() => setActiveTool('select')}
@@ -356,10 +801,122 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
             <path d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
           </svg>
         </button>
+
+        <button
+          class={`tool-btn ${activeTool() === 'path' ? 'active' : ''}`}
+          onClick={() => setActiveTool('path')}
+          title="Frihånd"
+        >
+          <svg viewBox="0 0 24 24" width="20" height="20">
+            <path d="M3 17c3-6 5-9 7-9s1 6 3 6 3-5 5-5 2 3 3 4" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
+
+        <Show when={activeTool() === 'path'}>
+          <div class="tool-divider" />
+          <label class="tool-width" title="Strekbredde">
+            <input
+              type="range"
+              min={MIN_STROKE_WIDTH}
+              max={MAX_STROKE_WIDTH}
+              step="0.1"
+              value={strokeWidth()}
+              onInput={(e) => setStrokeWidth(Number(e.currentTarget.value))}
+            />
+            <span
+              class="tool-width-dot"
+              style={{ width: `${4 + strokeWidth() * 3}px`, height: `${4 + strokeWidth() * 3}px` }}
+            />
+          </label>
+        </Show>
+
+        <Show when={isRegionTool(activeTool())}>
+          <div class="tool-divider" />
+          <button
+            class={`tool-btn ${regionShape() === 'rect' ? 'active' : ''}`}
+            onClick={() => setRegionShape('rect')}
+            title="Rektangel"
+          >
+            <svg viewBox="0 0 24 24" width="20" height="20">
+              <rect x="4" y="6" width="16" height="12" rx="1" stroke="currentColor" stroke-width="2" fill="none"/>
+            </svg>
+          </button>
+          <button
+            class={`tool-btn ${regionShape() === 'polygon' ? 'active' : ''}`}
+            onClick={() => setRegionShape('polygon')}
+            title="Polygon"
+          >
+            <svg viewBox="0 0 24 24" width="20" height="20">
+              <path d="M12 3L21 10L17 20H7L3 10Z" stroke="currentColor" stroke-width="2" fill="none" stroke-linejoin="round"/>
+            </svg>
+          </button>
+        </Show>
+
+        <div class="tool-divider" />
+
+        <button
+          class="tool-btn"
+          onClick={() => importInputRef?.click()}
+          title="Importer merknader"
+        >
+          <svg viewBox="0 0 24 24" width="20" height="20">
+            <path d="M12 3v12M7 10l5 5 5-5M5 21h14" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
+        <button
+          class="tool-btn"
+          onClick={handleExport}
+          disabled={props.annotations.length === 0}
+          title="Eksporter merknader"
+        >
+          <svg viewBox="0 0 24 24" width="20" height="20">
+            <path d="M12 15V3M7 8l5-5 5 5M5 21h14" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+
+        <div class="tool-divider" />
+
+        <button
+          class="tool-btn"
+          onClick={undo}
+          disabled={undoStack().length === 0}
+          title="Angre (Ctrl+Z)"
+        >
+          <svg viewBox="0 0 24 24" width="20" height="20">
+            <path d="M9 14L4 9l5-5M4 9h10.5a5.5 5.5 0 010 11H11" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
+        <button
+          class="tool-btn"
+          onClick={redo}
+          disabled={redoStack().length === 0}
+          title="Gjør om (Ctrl+Shift+Z)"
+        >
+          <svg viewBox="0 0 24 24" width="20" height="20">
+            <path d="M15 14l5-5-5-5M20 9H9.5a5.5 5.5 0 000 11H13" stroke="currentColor" stroke-width="2" fill="none" stroke-linecap="round" stroke-linejoin="round"/>
+          </svg>
+        </button>
       </div>
 
       {/* SVG layer for shapes */}
       <svg class="annotation-svg" viewBox="0 0 100 100" preserveAspectRatio="none">
+        <For each={props.annotations}>
+          {(annotation) => (
+            <Show when={(annotation.type === 'keep' || annotation.type === 'change') && (annotation.points?.length ?? 0) >= 3}>
+              {renderRegion(annotation)}
+            </Show>
+          )}
+        </For>
+        <Show when={currentShape()?.points && isRegionTool(activeTool())}>
+          {renderRegionPreview(currentShape()!)}
+        </Show>
         <For each={props.annotations}>
           {(annotation) => (
             <Show when={annotation.type === 'arrow'}>
@@ -370,6 +927,16 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
         <Show when={currentShape()?.type === 'arrow'}>
           {renderArrow(currentShape()!, true)}
         </Show>
+        <For each={props.annotations}>
+          {(annotation) => (
+            <Show when={annotation.type === 'path' && annotation.points}>
+              {renderPath(annotation)}
+            </Show>
+          )}
+        </For>
+        <Show when={currentShape()?.type === 'path'}>
+          {renderPath(currentShape()!, true)}
+        </Show>
       </svg>
 
       {/* Label annotations */}
@@ -382,7 +949,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
                 left: `${annotation().x}%`,
                 top: `${annotation().y}%`
               }}
-              onMouseDown={(e) => startDrag(annotation().id, 'whole', e)}
+              onPointerDown={(e) => startDrag(annotation().id, 'whole', e)}
               onClick={(e) => selectAnnotation(annotation().id, e)}
             >
               <input
@@ -390,13 +957,14 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
                 placeholder="Romnavn..."
                 value={annotation().text || ''}
                 onInput={(e) => updateText(annotation().id, e.currentTarget.value)}
-                onKeyDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => { e.stopPropagation(); handleHistoryKey(e); }}
                 onClick={(e) => e.stopPropagation()}
-                onMouseDown={(e) => e.stopPropagation()}
+                onPointerDown={(e) => e.stopPropagation()}
               />
               <Show when={selectedId() === annotation().id}>
                 <button
                   onClick={(e) => { e.stopPropagation(); deleteAnnotation(annotation().id); }}
+                  onPointerDown={(e) => e.stopPropagation()}
                   style={{
                     background: 'none',
                     border: 'none',
@@ -424,7 +992,7 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
                 left: `${annotation().x}%`,
                 top: `${annotation().y}%`
               }}
-              onMouseDown={(e) => startDrag(annotation().id, 'whole', e)}
+              onPointerDown={(e) => startDrag(annotation().id, 'whole', e)}
               onClick={(e) => selectAnnotation(annotation().id, e)}
             >
               <input
@@ -432,13 +1000,14 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
                 placeholder={annotation().type === 'keep' ? 'Behold...' : 'Endre...'}
                 value={annotation().text || ''}
                 onInput={(e) => updateText(annotation().id, e.currentTarget.value)}
-                onKeyDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => { e.stopPropagation(); handleHistoryKey(e); }}
                 onClick={(e) => e.stopPropagation()}
-                onMouseDown={(e) => e.stopPropagation()}
+                onPointerDown={(e) => e.stopPropagation()}
               />
               <Show when={selectedId() === annotation().id}>
                 <button
                   onClick={(e) => { e.stopPropagation(); deleteAnnotation(annotation().id); }}
+                  onPointerDown={(e) => e.stopPropagation()}
                   style={{
                     background: 'none',
                     border: 'none',
@@ -456,6 +1025,18 @@ export default function AnnotationLayer(props: AnnotationLayerProps) {
         )}
       </Index>
 
+      {/* Import/export message */}
+      <Show when={fileMessage()}>
+        <div class="annotation-hint">{fileMessage()}</div>
+      </Show>
+
+      {/* Polygon hint */}
+      <Show when={isDrawing() && isRegionTool(activeTool()) && regionShape() === 'polygon'}>
+        <div class="annotation-hint">
+          Klikk for å legge til punkter – klikk på første punkt, dobbeltklikk eller trykk Enter for å lukke
+        </div>
+      </Show>
+
       {/* Hint */}
       <Show when={props.annotations.length === 0 && !isDrawing() && activeTool() === 'select'}>
         <div class="annotation-hint">
@@ -0,0 +1,328 @@
+import { createSignal, onMount, onCleanup, Show, For } from 'solid-js';
+import { createPinchTracker, panForZoom, type PinchUpdate } from '../utils/pointerUtils';
+
+// An image that can be put on either side of the comparison
+export interface ComparableImage {
+  key: string;
+  label: string;
+  data: string;
+}
+
+type CompareMode = 'split' | 'side' | 'onion';
+
+interface ComparisonViewProps {
+  images: ComparableImage[];
+  initialA: string;
+  initialB: string;
+  onClose: () => void;
+}
+
+const MODES: { value: CompareMode; label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'side', label: 'Side by side' },
+  { value: 'onion', label: 'Onion skin' }
+];
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 8;
+
+export default function ComparisonView(props: ComparisonViewProps) {
+  const [keyA, setKeyA] = createSignal(props.initialA);
+  const [keyB, setKeyB] = createSignal(props.initialB);
+  const [mode, setMode] = createSignal<CompareMode>('split');
+  const [split, setSplit] = createSignal(50); // Divider position, % of the width
+  const [opacity, setOpacity] = createSignal(0.5); // Onion skin opacity of B
+
+  // Zoom and pan shared by both images
+  const [zoom, setZoom] = createSignal(1);
+  const [pan, setPan] = createSignal({ x: 0, y: 0 });
+
+  // Pointer state: dragging the divider or panning
+  let dragging: 'split' | 'pan' | null = null;
+  let lastPos = { x: 0, y: 0 };
+  const pinch = createPinchTracker();
+
+  let stageRef: HTMLDivElement | undefined;
+
+  const imageA = () => props.images.find(img => img.key === keyA()) ?? props.images[0];
+  const imageB = () => props.images.find(img => img.key === keyB()) ?? props.images[0];
+
+  const transform = () => `translate(${pan().x}px, ${pan().y}px) scale(${zoom()})`;
+
+  const clampZoom = (value: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, value));
+
+  // Zoom around a point given relative to the centre of the pane under it
+  const zoomAround = (newZoom: number, origin: { x: number; y: number }) => {
+    newZoom = clampZoom(newZoom);
+    setPan(panForZoom(pan(), zoom(), newZoom, origin));
+    setZoom(newZoom);
+  };
+
+  // Position relative to the centre of the pane the point is in (side by
+  // side has two panes; the others one)
+  const paneOrigin = (clientX: number, clientY: number) => {
+    const pane = (document.elementFromPoint(clientX, clientY) as HTMLElement | null)?.closest('.compare-pane');
+    const rect = (pane ?? stageRef)!.getBoundingClientRect();
+    return {
+      x: clientX - rect.left - rect.width / 2,
+      y: clientY - rect.top - rect.height / 2
+    };
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const swap = () => {
+    const a = keyA();
+    setKeyA(keyB());
+    setKeyB(a);
+  };
+
+  const setSplitFromPointer = (clientX: number) => {
+    if (!stageRef) return;
+    const rect = stageRef.getBoundingClientRect();
+    setSplit(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    zoomAround(zoom() * (e.deltaY > 0 ? 0.9 : 1.1), paneOrigin(e.clientX, e.clientY));
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    // Capturing would steal the click from the zoom buttons
+    if ((e.target as HTMLElement).closest('button')) return;
+
+    pinch.add(e);
+    stageRef?.setPointerCapture(e.pointerId);
+
+    // A second finger turns the drag into a pinch
+    if (pinch.count > 1) {
+      dragging = null;
+      return;
+    }
+
+    dragging = (e.target as HTMLElement).closest('.compare-handle') ? 'split' : 'pan';
+    lastPos = { x: e.clientX, y: e.clientY };
+    if (dragging === 'split') setSplitFromPointer(e.clientX);
+  };
+
+  const applyPinch = (update: PinchUpdate) => {
+    const origin = paneOrigin(update.center.x, update.center.y);
+    const moved = { x: pan().x + update.dx, y: pan().y + update.dy };
+    const newZoom = clampZoom(zoom() * update.scale);
+    setPan(panForZoom(moved, zoom(), newZoom, origin));
+    setZoom(newZoom);
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const update = pinch.move(e);
+    if (update) {
+      applyPinch(update);
+      return;
+    }
+
+    if (dragging === 'split') {
+      setSplitFromPointer(e.clientX);
+    } else if (dragging === 'pan') {
+      const dx = e.clientX - lastPos.x;
+      const dy = e.clientY - lastPos.y;
+      setPan(p => ({ x: p.x + dx, y: p.y + dy }));
+      lastPos = { x: e.clientX, y: e.clientY };
+    }
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    pinch.remove(e);
+    dragging = null;
+  };
+
+  // Arrow keys on the divider move it; Shift moves further
+  const handleSplitKey = (e: KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 2;
+    const next =
+      e.key === 'ArrowLeft' ? split() - step :
+      e.key === 'ArrowRight' ? split() + step :
+      e.key === 'Home' ? 0 :
+      e.key === 'End' ? 100 :
+      null;
+    if (next === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setSplit(Math.max(0, Math.min(100, next)));
+  };
+
+  // Shortcuts: Esc closes, 1-3 pick the mode, +/- zoom, 0 resets, S swaps
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.target as HTMLElement).closest('input, select, textarea')) {
+      if (e.key === 'Escape') props.onClose();
+      return;
+    }
+
+    switch (e.key) {
+      case 'Escape':
+        props.onClose();
+        break;
+      case '1':
+      case '2':
+      case '3':
+        setMode(MODES[Number(e.key) - 1].value);
+        break;
+      case '+':
+      case '=':
+        zoomAround(zoom() * 1.25, { x: 0, y: 0 });
+        break;
+      case '-':
+        zoomAround(zoom() / 1.25, { x: 0, y: 0 });
+        break;
+      case '0':
+        resetView();
+        break;
+      case 's':
+      case 'S':
+        swap();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        // Nudge the divider or the onion skin without focusing them first
+        if (mode() === 'split') handleSplitKey(e);
+        if (mode() === 'onion') {
+          const step = e.key === 'ArrowLeft' ? -0.1 : 0.1;
+          setOpacity(o => Math.max(0, Math.min(1, o + step)));
+        }
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  onMount(() => window.addEventListener('keydown', handleKeyDown));
+  onCleanup(() => window.removeEventListener('keydown', handleKeyDown));
+
+  const renderImage = (image: ComparableImage) => (
+    <img
+      src={image.data}
+      alt={image.label}
+      class="compare-image"
+      draggable={false}
+      style={{ transform: transform() }}
+    />
+  );
+
+  const renderPicker = (value: () => string, onChange: (key: string) => void, label: string) => (
+    <label class="compare-picker">
+      <span>{label}</span>
+      <select value={value()} onChange={(e) => onChange(e.currentTarget.value)}>
+        <For each={props.images}>
+          {(image) => <option value={image.key}>{image.label}</option>}
+        </For>
+      </select>
+    </label>
+  );
+
+  return (
+    <div class="compare-overlay">
+      <div class="compare-toolbar">
+        {renderPicker(keyA, setKeyA, 'A')}
+        <button class="btn-secondary" onClick={swap} title="Swap (S)">⇄</button>
+        {renderPicker(keyB, setKeyB, 'B')}
+
+        <div class="compare-modes" role="radiogroup" aria-label="Comparison mode">
+          <For each={MODES}>
+            {(m, i) => (
+              <button
+                class={mode() === m.value ? 'active' : ''}
+                role="radio"
+                aria-checked={mode() === m.value}
+                onClick={() => setMode(m.value)}
+                title={`${m.label} (${i() + 1})`}
+              >
+                {m.label}
+              </button>
+            )}
+          </For>
+        </div>
+
+        <Show when={mode() === 'onion'}>
+          <label class="compare-opacity">
+            <span>B {Math.round(opacity() * 100)}%</span>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={opacity()}
+              onInput={(e) => setOpacity(Number(e.currentTarget.value))}
+            />
+          </label>
+        </Show>
+
+        <button class="close-btn" onClick={props.onClose} title="Close (Esc)">×</button>
+      </div>
+
+      <div
+        ref={stageRef}
+        class={`compare-stage ${mode()}`}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {/* Side by side: one pane per image */}
+        <Show when={mode() === 'side'}>
+          <div class="compare-pane">
+            {renderImage(imageA())}
+            <span class="compare-tag">{imageA().label}</span>
+          </div>
+          <div class="compare-pane">
+            {renderImage(imageB())}
+            <span class="compare-tag">{imageB().label}</span>
+          </div>
+        </Show>
+
+        {/* Split and onion skin: B stacked over A */}
+        <Show when={mode() !== 'side'}>
+          <div class="compare-pane">
+            {renderImage(imageA())}
+          </div>
+          <div
+            class="compare-pane compare-top"
+            style={mode() === 'split'
+              ? { 'clip-path': `inset(0 0 0 ${split()}%)` }
+              : { opacity: opacity() }}
+          >
+            {renderImage(imageB())}
+          </div>
+          <span class="compare-tag left">{imageA().label}</span>
+          <span class="compare-tag right">{imageB().label}</span>
+        </Show>
+
+        <Show when={mode() === 'split'}>
+          <div
+            class="compare-handle"
+            style={{ left: `${split()}%` }}
+            tabindex="0"
+            role="slider"
+            aria-label="Divider between A and B"
+            aria-valuemin="0"
+            aria-valuemax="100"
+            aria-valuenow={Math.round(split())}
+            onKeyDown={handleSplitKey}
+          >
+            <span class="compare-handle-grip">‹ ›</span>
+          </div>
+        </Show>
+
+        <div class="preview-controls">
+          <button onClick={() => zoomAround(zoom() * 1.25, { x: 0, y: 0 })} title="Zoom in (+)">+</button>
+          <button onClick={() => zoomAround(zoom() / 1.25, { x: 0, y: 0 })} title="Zoom out (-)">−</button>
+          <button onClick={resetView} title="Reset (0)">⟲</button>
+        </div>
+      </div>
+    </div>
+  );
+}
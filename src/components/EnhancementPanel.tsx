@@ -0,0 +1,99 @@
+import { Show, For } from 'solid-js';
+import type { PreprocessSettings } from '../types';
+
+interface EnhancementPanelProps {
+  settings: PreprocessSettings;
+  onChange: (settings: PreprocessSettings) => void;
+  beforeImage: string;
+  afterImage: string | null;
+  processing: boolean;
+  onClose: () => void;
+}
+
+type ToggleKey = 'removeColorFill' | 'grayscale' | 'autoContrast' | 'adaptiveThreshold';
+
+const TOGGLES: { key: ToggleKey; label: string }[] = [
+  { key: 'removeColorFill', label: 'Remove colored fill' },
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'autoContrast', label: 'Auto-contrast' },
+  { key: 'adaptiveThreshold', label: 'Sharpen lines (adaptive threshold)' }
+];
+
+export default function EnhancementPanel(props: EnhancementPanelProps) {
+  const update = (changes: Partial<PreprocessSettings>) => {
+    props.onChange({ ...props.settings, ...changes });
+  };
+
+  return (
+    <div class="enhance-panel" onPointerDown={(e) => e.stopPropagation()}>
+      <div class="panel-header">
+        <h3>Line enhancement</h3>
+        <button class="close-btn" onClick={props.onClose} title="Close">×</button>
+      </div>
+
+      <div class="enhance-body">
+        <label class="enhance-toggle enhance-master">
+          <input
+            type="checkbox"
+            checked={props.settings.enabled}
+            onChange={(e) => update({ enabled: e.currentTarget.checked })}
+          />
+          Enhance plan before generating
+        </label>
+
+        <div class={`enhance-options ${props.settings.enabled ? '' : 'disabled'}`}>
+          <For each={TOGGLES}>
+            {(toggle) => (
+              <label class="enhance-toggle">
+                <input
+                  type="checkbox"
+                  checked={props.settings[toggle.key]}
+                  disabled={!props.settings.enabled}
+                  onChange={(e) => update({ [toggle.key]: e.currentTarget.checked })}
+                />
+                {toggle.label}
+              </label>
+            )}
+          </For>
+
+          <Show when={props.settings.adaptiveThreshold}>
+            <label class="enhance-slider">
+              <span>Line sensitivity</span>
+              <input
+                type="range"
+                min="0"
+                max="40"
+                value={props.settings.thresholdOffset}
+                disabled={!props.settings.enabled}
+                onInput={(e) => update({ thresholdOffset: Number(e.currentTarget.value) })}
+              />
+            </label>
+            <label class="enhance-slider">
+              <span>Neighbourhood size</span>
+              <input
+                type="range"
+                min="11"
+                max="101"
+                step="2"
+                value={props.settings.thresholdBlockSize}
+                disabled={!props.settings.enabled}
+                onInput={(e) => update({ thresholdBlockSize: Number(e.currentTarget.value) })}
+              />
+            </label>
+          </Show>
+        </div>
+
+        <div class="enhance-compare">
+          <figure>
+            <img src={props.beforeImage} alt="Before" />
+            <figcaption>Before</figcaption>
+          </figure>
+          <figure class={props.processing ? 'processing' : ''}>
+            <img src={props.afterImage ?? props.beforeImage} alt="After" />
+            <figcaption>{props.processing ? 'Processing...' : 'After'}</figcaption>
+          </figure>
+        </div>
+      </div>
+    </div>
+  );
+}
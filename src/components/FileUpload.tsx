@@ -1,5 +1,7 @@
-import { createSignal, Show, onMount, onCleanup } from 'solid-js';
-import { validateFile } from '../utils/fileUtils';
+import { createSignal, Show, For, onMount, onCleanup } from 'solid-js';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { validateFile, checkFileSize } from '../utils/fileUtils';
+import type { PdfPageThumbnail } from '../utils/pdfUtils';
 
 interface FileUploadProps {
   onFileSelect: (dataUrl: string, fileName: string) => void;
@@ -10,6 +12,11 @@ export default function FileUpload(props: FileUploadProps) {
   const [error, setError] = createSignal<string | null>(null);
   const [preview, setPreview] = createSignal<{ dataUrl: string; name: string; size: string } | null>(null);
 
+  // PDF page picker state
+  const [pdfDoc, setPdfDoc] = createSignal<{ doc: PDFDocumentProxy; name: string } | null>(null);
+  const [pdfPages, setPdfPages] = createSignal<PdfPageThumbnail[]>([]);
+  const [pdfLoading, setPdfLoading] = createSignal(false);
+
   let fileInputRef: HTMLInputElement | undefined;
 
   const formatFileSize = (bytes: number): string => {
@@ -21,7 +28,18 @@ export default function FileUpload(props: FileUploadProps) {
   const handleFile = async (file: File) => {
     setError(null);
     setPreview(null);
+    closePdf();
+
+    const { isPdfFile } = await import('../utils/pdfUtils');
+    if (isPdfFile(file)) {
+      await handlePdfFile(file);
+      return;
+    }
 
+    await handleImageFile(file);
+  };
+
+  const handleImageFile = async (file: File) => {
     const validation = await validateFile(file);
 
     if (!validation.valid) {
@@ -36,6 +54,62 @@ export default function FileUpload(props: FileUploadProps) {
     });
   };
 
+  // Open a PDF - single pages go straight through, otherwise show the picker
+  const handlePdfFile = async (file: File) => {
+    const sizeError = checkFileSize(file);
+    if (sizeError) {
+      setError(sizeError);
+      return;
+    }
+
+    setPdfLoading(true);
+
+    try {
+      const { loadPdfDocument, renderPdfThumbnails } = await import('../utils/pdfUtils');
+      const doc = await loadPdfDocument(file);
+      setPdfDoc({ doc, name: file.name });
+
+      if (doc.numPages === 1) {
+        await handlePageSelect(1);
+        return;
+      }
+
+      setPdfPages(await renderPdfThumbnails(doc));
+    } catch (err) {
+      console.error('PDF loading failed:', err);
+      closePdf();
+      setError('Kunne ikke lese PDF-filen. Prøv en annen fil.');
+    } finally {
+      setPdfLoading(false);
+    }
+  };
+
+  // Rasterize the chosen page and validate it like any other image
+  const handlePageSelect = async (pageNumber: number) => {
+    const current = pdfDoc();
+    if (!current) return;
+
+    setPdfLoading(true);
+
+    try {
+      const { rasterizePdfPage } = await import('../utils/pdfUtils');
+      const pageFile = await rasterizePdfPage(current.doc, pageNumber, current.name);
+      closePdf();
+      await handleImageFile(pageFile);
+    } catch (err) {
+      console.error('PDF page rendering failed:', err);
+      setError('Kunne ikke gjengi PDF-siden. Prøv en annen side.');
+    } finally {
+      setPdfLoading(false);
+    }
+  };
+
+  const closePdf = () => {
+    pdfDoc()?.doc.destroy();
+    setPdfDoc(null);
+    setPdfPages([]);
+  };
+
   // Handle clipboard paste
   const handlePaste = async (e: ClipboardEvent) => {
     const items = e.clipboardData?.items;
@@ -62,6 +136,7 @@ export default function FileUpload(props: FileUploadProps) {
 
   onCleanup(() => {
     document.removeEventListener('paste', handlePaste);
+    closePdf();
   });
 
   const handleDrop = (e: DragEvent) => {
@@ -101,6 +176,7 @@ export default function FileUpload(props: FileUploadProps) {
   const handleClear = () => {
     setPreview(null);
     setError(null);
+    closePdf();
     if (fileInputRef) {
       fileInputRef.value = '';
     }
@@ -108,21 +184,25 @@ export default function FileUpload(props: FileUploadProps) {
 
   return (
     <div
-      class={`upload-zone ${dragOver() ? 'drag-over' : ''} ${preview() ? 'has-file' : ''}`}
+      class={`upload-zone ${dragOver() ? 'drag-over' : ''} ${preview() || pdfDoc() ? 'has-file' : ''}`}
       onDrop={handleDrop}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
-      onClick={() => !preview() && fileInputRef?.click()}
+      onClick={() => !preview() && !pdfDoc() && !pdfLoading() && fileInputRef?.click()}
     >
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/png,image/jpeg,image/avif"
+        accept="image/png,image/jpeg,image/avif,application/pdf"
         onChange={handleInputChange}
         style={{ display: 'none' }}
       />
 
-      <Show when={!preview()}>
+      <Show when={pdfLoading()}>
+        <p class="pdf-loading">Reading PDF...</p>
+      </Show>
+
+      <Show when={!preview() && !pdfDoc() && !pdfLoading()}>
         <svg class="upload-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">
           <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1M12 4v12m0-12L8 8m4-4l4 4" stroke-linecap="round" stroke-linejoin="round" />
         </svg>
@@ -131,7 +211,29 @@ export default function FileUpload(props: FileUploadProps) {
         <button class="upload-button" type="button">
           Choose File
         </button>
-        <p class="upload-formats">PNG, JPEG or AVIF, max 10 MB</p>
+        <p class="upload-formats">PNG, JPEG, AVIF or PDF, max 10 MB</p>
+      </Show>
+
+      <Show when={pdfPages().length > 0 && !pdfLoading()}>
+        <div class="pdf-page-picker" onClick={(e) => e.stopPropagation()}>
+          <h4>Choose the page with the floor plan</h4>
+          <div class="pdf-page-grid">
+            <For each={pdfPages()}>
+              {(page) => (
+                <button
+                  class="pdf-page-option"
+                  onClick={() => handlePageSelect(page.pageNumber)}
+                >
+                  <img src={page.dataUrl} alt={`Page ${page.pageNumber}`} />
+                  <span>Page {page.pageNumber}</span>
+                </button>
+              )}
+            </For>
+          </div>
+          <button class="btn-secondary" onClick={handleClear}>
+            Cancel
+          </button>
+        </div>
       </Show>
 
       <Show when={preview()}>
@@ -145,7 +247,7 @@ export default function FileUpload(props: FileUploadProps) {
                 Clear
               </button>
               <button class="btn-primary" onClick={handleContinue}>
-                Generate
+                Continue
               </button>
             </div>
           </div>
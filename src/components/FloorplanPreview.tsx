@@ -1,20 +1,78 @@
-import { createSignal } from 'solid-js';
-import { rotateImage } from '../utils/fileUtils';
+import { createSignal, onMount, onCleanup, Show, For, type JSX } from 'solid-js';
+import type { Point, Rect } from '../types';
+import { rotateImage, cropImage, MIN_DIMENSION } from '../utils/fileUtils';
+import { rotatePointMapper, cropPointMapper } from '../utils/annotationUtils';
+import { createPinchTracker, panForZoom, type PinchUpdate } from '../utils/pointerUtils';
+import {
+  defaultCorners,
+  deskewCorners,
+  detectDocumentCorners,
+  detectSkewAngle,
+  perspectivePointMapper,
+  warpPerspective
+} from '../utils/perspective';
 
 interface FloorplanPreviewProps {
   imageData: string;
-  onImageChange: (dataUrl: string) => void;
+  // Image to show instead of imageData (e.g. an enhanced version); edits still apply to imageData
+  displayImage?: string;
+  // mapPoint converts 0-100 coordinates on the old image to the new one
+  onImageChange: (dataUrl: string, mapPoint?: (p: Point) => Point) => void;
+  // Overlay rendered on top of the image, following zoom and pan
+  children?: JSX.Element;
 }
 
+type EditMode = 'view' | 'crop' | 'perspective';
+
+type CropHandle = 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+const CROP_HANDLES: CropHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+const MIN_CROP_SIZE = 5; // Percent of the image
+
+const FULL_CROP: Rect = { x: 0, y: 0, width: 100, height: 100 };
+
 export default function FloorplanPreview(props: FloorplanPreviewProps) {
   const [zoom, setZoom] = createSignal(1);
   const [pan, setPan] = createSignal({ x: 0, y: 0 });
-  const [rotating, setRotating] = createSignal(false);
+  const [processing, setProcessing] = createSignal(false);
+
+  const [mode, setMode] = createSignal<EditMode>('view');
+
+  // Crop state (0-100 percentages of the image)
+  const [cropRect, setCropRect] = createSignal<Rect>(FULL_CROP);
+
+  // Perspective state: top-left, top-right, bottom-right, bottom-left (0-100)
+  const [corners, setCorners] = createSignal<Point[]>(defaultCorners());
+  const [detecting, setDetecting] = createSignal(false);
+  const [detectMessage, setDetectMessage] = createSignal<string | null>(null);
 
   // Pan state
   let isDragging = false;
   let lastPos = { x: 0, y: 0 };
 
+  // Crop drag state
+  let cropDrag: { handle: CropHandle; start: Point; startRect: Rect } | null = null;
+
+  // Index of the perspective corner being dragged
+  let cornerDrag: number | null = null;
+
+  // Two-finger pinch/pan, tracked for every pointer including ones the overlay handles
+  const pinch = createPinchTracker();
+
+  let containerRef: HTMLDivElement | undefined;
+  let frameRef: HTMLDivElement | undefined;
+  let imageRef: HTMLImageElement | undefined;
+
+  // Get pointer position relative to the image (0-100 scale)
+  const getImagePos = (e: PointerEvent): Point => {
+    if (!frameRef) return { x: 0, y: 0 };
+    const rect = frameRef.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
+    };
+  };
+
   const handleWheel = (e: WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
@@ -22,12 +80,78 @@ export default function FloorplanPreview(props: FloorplanPreviewProps) {
     setZoom(newZoom);
   };
 
-  const handleMouseDown = (e: MouseEvent) => {
+  // Capture phase: the annotation overlay stops propagation while drawing,
+  // but a second finger on it should still pinch
+  onMount(() => {
+    if (!containerRef) return;
+    const container = containerRef;
+
+    const trackDown = (e: PointerEvent) => {
+      if ((e.target as HTMLElement).closest('button')) return;
+      pinch.add(e);
+      if (pinch.count > 1) {
+        isDragging = false;
+        cropDrag = null;
+        cornerDrag = null;
+      }
+    };
+    const trackMove = (e: PointerEvent) => {
+      const update = pinch.move(e);
+      if (update) applyPinch(update);
+    };
+    const trackUp = (e: PointerEvent) => pinch.remove(e);
+
+    container.addEventListener('pointerdown', trackDown, true);
+    container.addEventListener('pointermove', trackMove, true);
+    container.addEventListener('pointerup', trackUp, true);
+    container.addEventListener('pointercancel', trackUp, true);
+
+    onCleanup(() => {
+      container.removeEventListener('pointerdown', trackDown, true);
+      container.removeEventListener('pointermove', trackMove, true);
+      container.removeEventListener('pointerup', trackUp, true);
+      container.removeEventListener('pointercancel', trackUp, true);
+    });
+  });
+
+  // Zoom around the pinch midpoint while following it
+  const applyPinch = (update: PinchUpdate) => {
+    if (!containerRef) return;
+    const rect = containerRef.getBoundingClientRect();
+    const origin = {
+      x: update.center.x - rect.left - rect.width / 2,
+      y: update.center.y - rect.top - rect.height / 2
+    };
+    const newZoom = Math.max(0.25, Math.min(4, zoom() * update.scale));
+    const moved = { x: pan().x + update.dx, y: pan().y + update.dy };
+    setPan(panForZoom(moved, zoom(), newZoom, origin));
+    setZoom(newZoom);
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    // Capturing would steal the click from the buttons
+    if ((e.target as HTMLElement).closest('button') || pinch.count > 1) return;
+
+    containerRef?.setPointerCapture(e.pointerId);
     isDragging = true;
     lastPos = { x: e.clientX, y: e.clientY };
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
+  const handlePointerMove = (e: PointerEvent) => {
+    if (pinch.count > 1) return;
+
+    if (cropDrag) {
+      updateCrop(getImagePos(e));
+      return;
+    }
+
+    if (cornerDrag !== null) {
+      const index = cornerDrag;
+      const pos = getImagePos(e);
+      setCorners(prev => prev.map((c, i) => i === index ? pos : c));
+      return;
+    }
+
     if (!isDragging) return;
     const dx = e.clientX - lastPos.x;
     const dy = e.clientY - lastPos.y;
@@ -35,21 +159,23 @@ export default function FloorplanPreview(props: FloorplanPreviewProps) {
     lastPos = { x: e.clientX, y: e.clientY };
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = () => {
     isDragging = false;
+    cropDrag = null;
+    cornerDrag = null;
   };
 
   const handleRotate = async (degrees: 90 | 270) => {
-    if (rotating()) return;
-    setRotating(true);
+    if (processing()) return;
+    setProcessing(true);
 
     try {
       const rotated = await rotateImage(props.imageData, degrees);
-      props.onImageChange(rotated);
+      props.onImageChange(rotated, rotatePointMapper(degrees));
     } catch (err) {
       console.error('Rotation failed:', err);
     } finally {
-      setRotating(false);
+      setProcessing(false);
     }
   };
 
@@ -66,14 +192,178 @@ export default function FloorplanPreview(props: FloorplanPreviewProps) {
     setPan({ x: 0, y: 0 });
   };
 
+  // Start moving the crop rectangle or one of its handles
+  const startCropDrag = (handle: CropHandle, e: PointerEvent) => {
+    e.stopPropagation();
+    if (pinch.count > 1) return;
+    containerRef?.setPointerCapture(e.pointerId);
+    cropDrag = { handle, start: getImagePos(e), startRect: cropRect() };
+  };
+
+  const updateCrop = (pos: Point) => {
+    if (!cropDrag) return;
+
+    const { handle, start, startRect } = cropDrag;
+    const dx = pos.x - start.x;
+    const dy = pos.y - start.y;
+
+    if (handle === 'move') {
+      setCropRect({
+        ...startRect,
+        x: Math.max(0, Math.min(100 - startRect.width, startRect.x + dx)),
+        y: Math.max(0, Math.min(100 - startRect.height, startRect.y + dy))
+      });
+      return;
+    }
+
+    let left = startRect.x;
+    let top = startRect.y;
+    let right = startRect.x + startRect.width;
+    let bottom = startRect.y + startRect.height;
+
+    if (handle.includes('w')) left = Math.max(0, Math.min(right - MIN_CROP_SIZE, left + dx));
+    if (handle.includes('e')) right = Math.min(100, Math.max(left + MIN_CROP_SIZE, right + dx));
+    if (handle.includes('n')) top = Math.max(0, Math.min(bottom - MIN_CROP_SIZE, top + dy));
+    if (handle.includes('s')) bottom = Math.min(100, Math.max(top + MIN_CROP_SIZE, bottom + dy));
+
+    setCropRect({ x: left, y: top, width: right - left, height: bottom - top });
+  };
+
+  const handleStartCrop = () => {
+    setCropRect(FULL_CROP);
+    setDetectMessage(null);
+    setMode('crop');
+  };
+
+  const handleCancelEdit = () => {
+    setMode('view');
+    setDetectMessage(null);
+  };
+
+  const handleApplyCrop = async () => {
+    if (processing()) return;
+
+    const rect = cropRect();
+    if (rect.width >= 100 && rect.height >= 100) {
+      setMode('view');
+      return;
+    }
+
+    // Uploads must meet MIN_DIMENSION; a smaller crop is allowed, but the model
+    // may read less of the plan, so say so
+    const width = Math.round((rect.width / 100) * (imageRef?.naturalWidth ?? 0));
+    const height = Math.round((rect.height / 100) * (imageRef?.naturalHeight ?? 0));
+
+    setProcessing(true);
+
+    try {
+      const cropped = await cropImage(props.imageData, rect);
+      props.onImageChange(cropped, cropPointMapper(rect));
+      setMode('view');
+      handleReset();
+      if (Math.min(width, height) < MIN_DIMENSION) {
+        setDetectMessage(`Utsnittet er lite (${width}x${height}); under ${MIN_DIMENSION}px kan gjengivelsen bli mindre nøyaktig`);
+      }
+    } catch (err) {
+      console.error('Crop failed:', err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleStartPerspective = () => {
+    setCorners(defaultCorners());
+    setDetectMessage(null);
+    setMode('perspective');
+  };
+
+  const startCornerDrag = (index: number, e: PointerEvent) => {
+    e.stopPropagation();
+    if (pinch.count > 1) return;
+    containerRef?.setPointerCapture(e.pointerId);
+    cornerDrag = index;
+  };
+
+  // Find the sheet of paper in a photo and snap the corners to it
+  const handleDetectCorners = async () => {
+    if (detecting()) return;
+    setDetecting(true);
+    setDetectMessage(null);
+
+    try {
+      const detected = await detectDocumentCorners(props.imageData);
+      if (detected) {
+        setCorners(detected);
+      } else {
+        setDetectMessage('Fant ingen tydelige hjørner');
+      }
+    } catch (err) {
+      console.error('Corner detection failed:', err);
+      setDetectMessage('Hjørnesøk feilet');
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  // Measure the tilt of the plan's lines and set corners that straighten it
+  const handleDeskew = async () => {
+    if (detecting() || !imageRef) return;
+    setDetecting(true);
+    setDetectMessage(null);
+
+    try {
+      const angle = await detectSkewAngle(props.imageData);
+      if (Math.abs(angle) < 0.1) {
+        setDetectMessage('Plantegningen er allerede rett');
+      } else {
+        setCorners(deskewCorners(angle, imageRef.naturalWidth, imageRef.naturalHeight));
+        setDetectMessage(`Rettet opp ${angle.toFixed(1)}°`);
+      }
+    } catch (err) {
+      console.error('Deskew failed:', err);
+      setDetectMessage('Oppretting feilet');
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const handleApplyPerspective = async () => {
+    if (processing()) return;
+
+    const quad = corners();
+    setProcessing(true);
+
+    try {
+      const warped = await warpPerspective(props.imageData, quad);
+      props.onImageChange(warped, perspectivePointMapper(quad));
+      setMode('view');
+      setDetectMessage(null);
+      handleReset();
+    } catch (err) {
+      console.error('Perspective correction failed:', err);
+      setDetectMessage('Perspektivkorrigering feilet');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Position style for a crop handle on the edge of the rectangle
+  const handleStyle = (handle: CropHandle): JSX.CSSProperties => {
+    const rect = cropRect();
+    const x = handle.includes('w') ? rect.x : handle.includes('e') ? rect.x + rect.width : rect.x + rect.width / 2;
+    const y = handle.includes('n') ? rect.y : handle.includes('s') ? rect.y + rect.height : rect.y + rect.height / 2;
+    return { left: `${x}%`, top: `${y}%` };
+  };
+
   return (
     <div
+      ref={containerRef}
       class="preview-container"
       onWheel={handleWheel}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
     >
       <div
         class="preview-image-wrapper"
@@ -81,36 +371,145 @@ export default function FloorplanPreview(props: FloorplanPreviewProps) {
           transform: `translate(${pan().x}px, ${pan().y}px) scale(${zoom()})`
         }}
       >
-        <img
-          src={props.imageData}
-          alt="Plantegning"
-          class="preview-image"
-          draggable={false}
-        />
+        <div class="preview-frame" ref={frameRef}>
+          <img
+            ref={imageRef}
+            src={props.displayImage ?? props.imageData}
+            alt="Plantegning"
+            class="preview-image"
+            draggable={false}
+          />
+          {/* Hidden rather than unmounted while editing, so the layer keeps its undo history */}
+          <div style={{ display: mode() === 'view' ? 'contents' : 'none' }}>
+            {props.children}
+          </div>
+
+          {/* Crop overlay */}
+          <Show when={mode() === 'crop'}>
+            <div class="crop-overlay">
+              <div
+                class="crop-rect"
+                style={{
+                  left: `${cropRect().x}%`,
+                  top: `${cropRect().y}%`,
+                  width: `${cropRect().width}%`,
+                  height: `${cropRect().height}%`
+                }}
+                onPointerDown={(e) => startCropDrag('move', e)}
+              />
+              <For each={CROP_HANDLES}>
+                {(handle) => (
+                  <div
+                    class={`crop-handle crop-handle-${handle}`}
+                    style={handleStyle(handle)}
+                    onPointerDown={(e) => startCropDrag(handle, e)}
+                  />
+                )}
+              </For>
+            </div>
+          </Show>
+
+          {/* Perspective overlay */}
+          <Show when={mode() === 'perspective'}>
+            <div class="perspective-overlay">
+              <svg class="perspective-svg" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <polygon
+                  points={corners().map(c => `${c.x},${c.y}`).join(' ')}
+                  fill="rgba(79, 70, 229, 0.15)"
+                  stroke="#4f46e5"
+                  stroke-width="0.4"
+                  vector-effect="non-scaling-stroke"
+                />
+              </svg>
+              <For each={corners()}>
+                {(corner, index) => (
+                  <div
+                    class="perspective-handle"
+                    style={{ left: `${corner.x}%`, top: `${corner.y}%` }}
+                    onPointerDown={(e) => startCornerDrag(index(), e)}
+                  />
+                )}
+              </For>
+            </div>
+          </Show>
+        </div>
       </div>
 
       <div class="preview-controls">
-        <button onClick={handleZoomIn} title="Zoom inn">+</button>
-        <button onClick={handleZoomOut} title="Zoom ut">−</button>
-        <button onClick={handleReset} title="Tilbakestill">⟲</button>
-        <button
-          onClick={() => handleRotate(270)}
-          title="Roter mot klokka"
-          disabled={rotating()}
-        >
-          ↺
-        </button>
-        <button
-          onClick={() => handleRotate(90)}
-          title="Roter med klokka"
-          disabled={rotating()}
-        >
-          ↻
-        </button>
+        <Show when={mode() === 'crop'}>
+          <button onClick={handleCancelEdit} title="Avbryt beskjæring">✕</button>
+          <button
+            onClick={handleApplyCrop}
+            title="Bruk beskjæring"
+            disabled={processing()}
+          >
+            ✓
+          </button>
+        </Show>
+        <Show when={mode() === 'perspective'}>
+          <button
+            onClick={handleDetectCorners}
+            title="Finn hjørner automatisk"
+            disabled={detecting() || processing()}
+          >
+            ⌖
+          </button>
+          <button
+            onClick={handleDeskew}
+            title="Rett opp skjev plantegning"
+            disabled={detecting() || processing()}
+          >
+            ⦣
+          </button>
+          <button onClick={handleCancelEdit} title="Avbryt perspektivkorrigering">✕</button>
+          <button
+            onClick={handleApplyPerspective}
+            title="Bruk perspektivkorrigering"
+            disabled={detecting() || processing()}
+          >
+            ✓
+          </button>
+        </Show>
+        <Show when={mode() === 'view'}>
+          <button onClick={handleZoomIn} title="Zoom inn">+</button>
+          <button onClick={handleZoomOut} title="Zoom ut">−</button>
+          <button onClick={handleReset} title="Tilbakestill">⟲</button>
+          <button
+            onClick={() => handleRotate(270)}
+            title="Roter mot klokka"
+            disabled={processing()}
+          >
+            ↺
+          </button>
+          <button
+            onClick={() => handleRotate(90)}
+            title="Roter med klokka"
+            disabled={processing()}
+          >
+            ↻
+          </button>
+          <button
+            onClick={handleStartCrop}
+            title="Beskjær"
+            disabled={processing()}
+          >
+            ✂
+          </button>
+          <button
+            onClick={handleStartPerspective}
+            title="Perspektivkorrigering"
+            disabled={processing()}
+          >
+            ⬚
+          </button>
+        </Show>
       </div>
 
       <div class="preview-info">
         Zoom: {Math.round(zoom() * 100)}%
+        <Show when={detectMessage()}>
+          {' • '}{detectMessage()}
+        </Show>
       </div>
     </div>
   );
@@ -0,0 +1,120 @@
+import { createSignal, onMount, Show } from 'solid-js';
+import type { GenerationSetup, GenerationEstimate } from '../types';
+import { MAX_VARIANTS, clampVariants } from '../utils/generationSetup';
+import StyleSelector from './StyleSelector';
+
+interface GenerationSetupPanelProps {
+  setup: GenerationSetup;
+  onChange: (setup: GenerationSetup) => void;
+  onStart: () => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Formats an estimated duration, rounding up to whole seconds or minutes
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.ceil(seconds))} s`;
+  return `${Math.ceil(seconds / 60)} min`;
+}
+
+export default function GenerationSetupPanel(props: GenerationSetupPanelProps) {
+  // Loaded with the generation module so the estimate matches the active provider
+  const [estimator, setEstimator] = createSignal<((setup: GenerationSetup) => GenerationEstimate) | null>(null);
+
+  onMount(async () => {
+    try {
+      const { estimateGeneration } = await import('../api/generation');
+      setEstimator(() => (setup: GenerationSetup) => estimateGeneration(setup));
+    } catch (err) {
+      console.error('Failed to load generation estimate:', err);
+    }
+  });
+
+  const estimate = () => estimator()?.(props.setup) ?? null;
+  const renderCount = () => props.setup.styles.length * props.setup.variants;
+
+  const setVariants = (variants: number) => {
+    props.onChange({ ...props.setup, variants: clampVariants(variants) });
+  };
+
+  return (
+    <div class="generation-setup" onPointerDown={(e) => e.stopPropagation()}>
+      <div class="panel-header">
+        <h3>Generation setup</h3>
+        <button class="close-btn" onClick={props.onClose} title="Close">×</button>
+      </div>
+
+      <div class="generation-setup-body">
+        <p class="generation-setup-hint">Styles to render:</p>
+        <StyleSelector
+          value={props.setup.styles}
+          onChange={(styles) => props.onChange({ ...props.setup, styles })}
+        />
+
+        {/* Variants per style */}
+        <div class="generation-setup-variants">
+          <span>Variants per style</span>
+          <div class="generation-setup-stepper">
+            <button
+              class="btn-secondary"
+              onClick={() => setVariants(props.setup.variants - 1)}
+              disabled={props.setup.variants <= 1}
+              title="Fewer variants"
+            >
+              −
+            </button>
+            <span>{props.setup.variants}</span>
+            <button
+              class="btn-secondary"
+              onClick={() => setVariants(props.setup.variants + 1)}
+              disabled={props.setup.variants >= MAX_VARIANTS}
+              title="More variants"
+            >
+              +
+            </button>
+          </div>
+        </div>
+
+        {/* Estimate for the current choice */}
+        <Show
+          when={renderCount() > 0}
+          fallback={<p class="generation-setup-empty">Pick at least one style.</p>}
+        >
+          <dl class="generation-setup-estimate">
+            <div>
+              <dt>Renders</dt>
+              <dd>{renderCount()}</dd>
+            </div>
+            <Show when={estimate()}>
+              {(e) => (
+                <>
+                  <div>
+                    <dt>Est. cost</dt>
+                    <dd>{e().cost > 0 ? `~$${e().cost.toFixed(2)}` : 'Free'}</dd>
+                  </div>
+                  <div>
+                    <dt>Est. time</dt>
+                    <dd>~{formatDuration(e().seconds)}</dd>
+                  </div>
+                </>
+              )}
+            </Show>
+          </dl>
+        </Show>
+
+        <div class="refine-actions">
+          <button class="btn-secondary" onClick={props.onClose}>Cancel</button>
+          <button
+            class="btn-primary"
+            onClick={props.onStart}
+            disabled={props.disabled || renderCount() === 0}
+          >
+            Generate {renderCount() === 1 ? '1 render' : `${renderCount()} renders`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
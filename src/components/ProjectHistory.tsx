@@ -2,6 +2,7 @@ import { createSignal, createEffect, For, Show } from 'solid-js';
 import type { LocalProject } from '../types';
 import { getLocalProjects, deleteLocalProject } from '../api/storage';
 import { getOrCreateClientId } from '../utils/fileUtils';
+import { customStyles, loadCustomStyles } from '../api/customStyles';
 
 interface ProjectHistoryProps {
   onLoadProject: (project: LocalProject) => void;
@@ -16,6 +17,7 @@ export default function ProjectHistory(props: ProjectHistoryProps) {
     try {
       const clientId = getOrCreateClientId();
       const localProjects = await getLocalProjects(clientId);
+      await loadCustomStyles();
       setProjects(localProjects);
     } catch (err) {
       console.error('Failed to load project history:', err);
@@ -85,6 +87,11 @@ export default function ProjectHistory(props: ProjectHistoryProps) {
     colorful: 'Fargerik'
   };
 
+  // Custom presets by their own name; deleted ones get a generic label
+  const styleName = (style: LocalProject['style']): string => {
+    return styleNames[style] || customStyles().find(p => p.value === style)?.label || 'Slettet stil';
+  };
+
   return (
     <Show when={!loading() && projects().length > 0}>
       <div class="sidebar-section">
@@ -124,7 +131,7 @@ export default function ProjectHistory(props: ProjectHistoryProps) {
                 <div class="history-item-info">
                   <h4>{project.originalFileName}</h4>
                   <p>
-                    {styleNames[project.style] || project.style} • {formatDate(project.createdAt)}
+                    {styleName(project.style)} • {formatDate(project.createdAt)}
                   </p>
                 </div>
                 <button
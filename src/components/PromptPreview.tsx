@@ -0,0 +1,33 @@
+import { Show } from 'solid-js';
+import type { Annotation } from '../types';
+import { buildAnnotationInstructions } from '../utils/promptBuilder';
+
+interface PromptPreviewProps {
+  annotations: Annotation[];
+  onClose: () => void;
+}
+
+export default function PromptPreview(props: PromptPreviewProps) {
+  const instructions = () => buildAnnotationInstructions(props.annotations);
+
+  return (
+    <div class="prompt-preview" onPointerDown={(e) => e.stopPropagation()}>
+      <div class="panel-header">
+        <h3>Prompt preview</h3>
+        <button class="close-btn" onClick={props.onClose} title="Close">×</button>
+      </div>
+
+      <div class="prompt-preview-body">
+        <p class="prompt-preview-hint">
+          Appended to the base prompt and style for every render:
+        </p>
+        <Show
+          when={instructions()}
+          fallback={<p class="prompt-preview-empty">No annotations yet - only the base prompt and style are sent.</p>}
+        >
+          <pre>{instructions()}</pre>
+        </Show>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { createSignal } from 'solid-js';
+import type { Annotation } from '../types';
+import AnnotationLayer from './AnnotationLayer';
+
+interface RefinePanelProps {
+  image: string;
+  label: string;
+  onSubmit: (feedback: string, marks: Annotation[]) => void;
+  onClose: () => void;
+}
+
+export default function RefinePanel(props: RefinePanelProps) {
+  const [feedback, setFeedback] = createSignal('');
+  const [marks, setMarks] = createSignal<Annotation[]>([]);
+
+  const canSubmit = () => feedback().trim().length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit()) return;
+    props.onSubmit(feedback().trim(), marks());
+  };
+
+  return (
+    <div class="refine-overlay" onClick={props.onClose}>
+      <div class="refine-panel" onClick={(e) => e.stopPropagation()}>
+        <div class="panel-header">
+          <h3>Refine {props.label}</h3>
+          <button class="close-btn" onClick={props.onClose} title="Close">×</button>
+        </div>
+
+        {/* Render with optional marks */}
+        <div class="refine-canvas">
+          <div class="refine-frame">
+            <img src={props.image} alt={props.label} draggable={false} />
+            <AnnotationLayer annotations={marks()} onAnnotationsChange={setMarks} />
+          </div>
+        </div>
+
+        <div class="refine-form">
+          <textarea
+            placeholder="What should change? E.g. make the sofa blue, add plants by the window"
+            value={feedback()}
+            onInput={(e) => setFeedback(e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+            }}
+            rows={3}
+          />
+          <div class="refine-actions">
+            <button class="btn-secondary" onClick={props.onClose}>
+              Cancel
+            </button>
+            <button class="btn-primary" onClick={handleSubmit} disabled={!canSubmit()}>
+              Refine
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,90 +1,309 @@
-import { createSignal } from 'solid-js';
+import { createSignal, createEffect, on, onMount, onCleanup, Show, type JSX } from 'solid-js';
+import type { Point } from '../types';
+import { createPinchTracker, panForZoom, type PinchUpdate } from '../utils/pointerUtils';
 
 interface RenderCanvasProps {
   imageData: string;
-  onRegenerate: () => void;
-  onNewRender: () => void;
-  project: unknown;
+  alt: string;
+  // Zoom and pan reset when this changes (a new image, not a new version of it)
+  viewKey: string;
+  // Overlays drawn over the image, in the image's own box
+  children?: JSX.Element;
+  onImageLoad?: (size: { width: number; height: number }) => void;
+  onZoomedChange?: (zoomed: boolean) => void;
 }
 
+// Zoom factors are relative to "fit" (whole image visible)
+type ViewMode = 'fit' | 'fill' | 'actual';
+
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_PX = 30;
+const DRAG_THRESHOLD_PX = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+const MINIMAP_WIDTH = 120;
+
 export default function RenderCanvas(props: RenderCanvasProps) {
   const [zoom, setZoom] = createSignal(1);
   const [pan, setPan] = createSignal({ x: 0, y: 0 });
+  const [containerSize, setContainerSize] = createSignal({ width: 0, height: 0 });
+  const [naturalSize, setNaturalSize] = createSignal({ width: 0, height: 0 });
 
-  // Pan state
+  // Pan state; capture starts only once the pointer moves, so clicks reach overlays
+  let dragStart: Point | null = null;
   let isDragging = false;
   let lastPos = { x: 0, y: 0 };
+  let lastTap = { time: 0, x: 0, y: 0 };
+  let lastTouchToggle = 0;
+
+  // Two-finger pinch/pan
+  const pinch = createPinchTracker();
+
+  let containerRef: HTMLDivElement | undefined;
+
+  // Scale of the image at zoom 1 (fit inside the container)
+  const fitScale = () => {
+    const c = containerSize();
+    const n = naturalSize();
+    if (!n.width || !n.height || !c.width || !c.height) return 1;
+    return Math.min(c.width / n.width, c.height / n.height);
+  };
+
+  const fitSize = () => ({
+    width: naturalSize().width * fitScale(),
+    height: naturalSize().height * fitScale()
+  });
+
+  const zoomForMode = (mode: ViewMode) => {
+    const c = containerSize();
+    const n = naturalSize();
+    if (mode === 'fit' || !n.width || !n.height) return 1;
+    if (mode === 'actual') return 1 / fitScale();
+    return Math.max(c.width / n.width, c.height / n.height) / fitScale();
+  };
+
+  const maxZoom = () => Math.max(8, zoomForMode('actual') * 2);
+
+  const isZoomed = () => zoom() > 1.001;
+
+  // Keep the image covering the view: no panning past its edges
+  const clampPan = (p: Point, z: number): Point => {
+    const c = containerSize();
+    const f = fitSize();
+    const maxX = Math.max(0, (f.width * z - c.width) / 2);
+    const maxY = Math.max(0, (f.height * z - c.height) / 2);
+    return {
+      x: Math.max(-maxX, Math.min(maxX, p.x)),
+      y: Math.max(-maxY, Math.min(maxY, p.y))
+    };
+  };
+
+  // Zoom keeping the point at `origin` (relative to the container centre) still
+  const zoomTo = (newZoom: number, origin: Point = { x: 0, y: 0 }) => {
+    newZoom = Math.max(1, Math.min(maxZoom(), newZoom));
+    setPan(clampPan(panForZoom(pan(), zoom(), newZoom, origin), newZoom));
+    setZoom(newZoom);
+  };
+
+  const setMode = (mode: ViewMode) => {
+    setZoom(zoomForMode(mode));
+    setPan({ x: 0, y: 0 });
+  };
+
+  const originOf = (clientX: number, clientY: number): Point => {
+    const rect = containerRef!.getBoundingClientRect();
+    return {
+      x: clientX - rect.left - rect.width / 2,
+      y: clientY - rect.top - rect.height / 2
+    };
+  };
+
+  // Double-click or double-tap: zoom in there, or back out to fit
+  const toggleZoomAt = (clientX: number, clientY: number) => {
+    if (isZoomed()) {
+      setMode('fit');
+    } else {
+      zoomTo(DOUBLE_TAP_ZOOM, originOf(clientX, clientY));
+    }
+  };
 
   const handleWheel = (e: WheelEvent) => {
     e.preventDefault();
     const delta = e.deltaY > 0 ? 0.9 : 1.1;
-    const newZoom = Math.max(0.25, Math.min(4, zoom() * delta));
-    setZoom(newZoom);
+    zoomTo(zoom() * delta, originOf(e.clientX, e.clientY));
   };
 
-  const handleMouseDown = (e: MouseEvent) => {
-    isDragging = true;
-    lastPos = { x: e.clientX, y: e.clientY };
+  const handlePointerDown = (e: PointerEvent) => {
+    // Capturing would steal the click from the buttons
+    if ((e.target as HTMLElement).closest('button, .render-minimap')) return;
+
+    pinch.add(e);
+    if (pinch.count > 1) {
+      // A second finger turns the pan into a pinch
+      containerRef?.setPointerCapture(e.pointerId);
+      dragStart = null;
+      isDragging = false;
+      return;
+    }
+
+    dragStart = { x: e.clientX, y: e.clientY };
+    lastPos = dragStart;
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
-    if (!isDragging) return;
+  // Zoom around the pinch midpoint while following it
+  const applyPinch = (update: PinchUpdate) => {
+    const origin = originOf(update.center.x, update.center.y);
+    const newZoom = Math.max(1, Math.min(maxZoom(), zoom() * update.scale));
+    const moved = { x: pan().x + update.dx, y: pan().y + update.dy };
+    setPan(clampPan(panForZoom(moved, zoom(), newZoom, origin), newZoom));
+    setZoom(newZoom);
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    const update = pinch.move(e);
+    if (update) {
+      applyPinch(update);
+      return;
+    }
+
+    // Only pan when there is something to pan to; at fit the gallery swipes
+    if (!dragStart || !isZoomed()) return;
+    if (!isDragging) {
+      if (Math.hypot(e.clientX - dragStart.x, e.clientY - dragStart.y) < DRAG_THRESHOLD_PX) return;
+      isDragging = true;
+      containerRef?.setPointerCapture(e.pointerId);
+    }
+
     const dx = e.clientX - lastPos.x;
     const dy = e.clientY - lastPos.y;
-    setPan(p => ({ x: p.x + dx, y: p.y + dy }));
+    setPan(p => clampPan({ x: p.x + dx, y: p.y + dy }, zoom()));
     lastPos = { x: e.clientX, y: e.clientY };
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = (e: PointerEvent) => {
+    pinch.remove(e);
+    const wasTap = dragStart !== null && !isDragging;
+    dragStart = null;
     isDragging = false;
+
+    // Mice get dblclick; touch and pens need their own double-tap
+    if (!wasTap || e.pointerType === 'mouse') return;
+    const now = Date.now();
+    if (now - lastTap.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < DOUBLE_TAP_PX) {
+      toggleZoomAt(e.clientX, e.clientY);
+      lastTap = { time: 0, x: 0, y: 0 };
+      lastTouchToggle = now;
+    } else {
+      lastTap = { time: now, x: e.clientX, y: e.clientY };
+    }
   };
 
-  // Download image
-  const handleDownload = () => {
-    const link = document.createElement('a');
-    link.href = props.imageData;
-    link.download = `beautiful-room-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handlePointerCancel = (e: PointerEvent) => {
+    pinch.remove(e);
+    dragStart = null;
+    isDragging = false;
   };
 
+  // Visible part of the image, as fractions of its size
+  const viewport = () => {
+    const c = containerSize();
+    const f = fitSize();
+    const width = f.width * zoom();
+    const height = f.height * zoom();
+    if (!width || !height) return { x: 0, y: 0, width: 1, height: 1 };
+
+    const left = (width - c.width) / 2 - pan().x;
+    const top = (height - c.height) / 2 - pan().y;
+    const x = Math.max(0, left / width);
+    const y = Math.max(0, top / height);
+    return {
+      x,
+      y,
+      width: Math.min(1, (left + c.width) / width) - x,
+      height: Math.min(1, (top + c.height) / height) - y
+    };
+  };
+
+  // Clicking or dragging on the minimap centres the view there
+  const handleMinimapPointer = (e: PointerEvent) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    e.stopPropagation();
+    if (e.type === 'pointerdown') {
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    }
+
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const fx = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const fy = Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height));
+    const f = fitSize();
+    setPan(clampPan({
+      x: (0.5 - fx) * f.width * zoom(),
+      y: (0.5 - fy) * f.height * zoom()
+    }, zoom()));
+  };
+
+  // Track the container size so fit/fill/1:1 follow window resizes
+  onMount(() => {
+    if (!containerRef) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+      setPan(p => clampPan(p, zoom()));
+    });
+    observer.observe(containerRef);
+    onCleanup(() => observer.disconnect());
+  });
+
+  createEffect(on(() => props.viewKey, () => setMode('fit'), { defer: true }));
+
+  createEffect(() => props.onZoomedChange?.(isZoomed()));
+  onCleanup(() => props.onZoomedChange?.(false));
+
   return (
     <div
-      class="render-container"
+      ref={containerRef}
+      class="render-canvas"
       onWheel={handleWheel}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      onDblClick={(e) => {
+        // Some browsers also send dblclick after a double tap we handled
+        if (Date.now() - lastTouchToggle > 500) toggleZoomAt(e.clientX, e.clientY);
+      }}
+      classList={{ zoomed: isZoomed() }}
     >
       <div
+        class="render-canvas-frame"
         style={{
-          transform: `translate(${pan().x}px, ${pan().y}px) scale(${zoom()})`,
-          'transform-origin': 'center center',
-          transition: 'transform 0.1s ease-out'
+          width: `${fitSize().width}px`,
+          height: `${fitSize().height}px`,
+          transform: `translate(${pan().x}px, ${pan().y}px) scale(${zoom()})`
         }}
       >
         <img
           src={props.imageData}
-          alt="3D-render av plantegning"
+          alt={props.alt}
           class="render-image"
           draggable={false}
+          onLoad={(e) => {
+            const size = { width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight };
+            setNaturalSize(size);
+            props.onImageLoad?.(size);
+          }}
         />
+        {props.children}
       </div>
 
-      <div class="render-actions">
-        <button onClick={handleDownload} title="Download">
-          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-            <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" stroke-linecap="round" stroke-linejoin="round"/>
-          </svg>
-        </button>
-      </div>
+      {/* Minimap with the visible area while zoomed in */}
+      <Show when={isZoomed() && naturalSize().width > 0}>
+        <div
+          class="render-minimap"
+          style={{
+            width: `${MINIMAP_WIDTH}px`,
+            height: `${(MINIMAP_WIDTH * naturalSize().height) / naturalSize().width}px`
+          }}
+          onPointerDown={handleMinimapPointer}
+          onPointerMove={handleMinimapPointer}
+        >
+          <img src={props.imageData} alt="" draggable={false} />
+          <div
+            class="render-minimap-view"
+            style={{
+              left: `${viewport().x * 100}%`,
+              top: `${viewport().y * 100}%`,
+              width: `${viewport().width * 100}%`,
+              height: `${viewport().height * 100}%`
+            }}
+          />
+        </div>
+      </Show>
 
-      <div class="preview-controls">
-        <button onClick={() => setZoom(z => Math.min(4, z * 1.25))} title="Zoom inn">+</button>
-        <button onClick={() => setZoom(z => Math.max(0.25, z / 1.25))} title="Zoom ut">−</button>
-        <button onClick={() => { setZoom(1); setPan({ x: 0, y: 0 }); }} title="Tilbakestill">⟲</button>
+      <div class="preview-controls render-controls">
+        <button onClick={() => setMode('fit')} title="Tilpass">Tilpass</button>
+        <button onClick={() => setMode('fill')} title="Fyll">Fyll</button>
+        <button onClick={() => setMode('actual')} title="Faktisk størrelse">1:1</button>
+        <button onClick={() => zoomTo(zoom() * 1.25)} title="Zoom inn">+</button>
+        <button onClick={() => zoomTo(zoom() / 1.25)} title="Zoom ut" disabled={!isZoomed()}>−</button>
       </div>
     </div>
   );
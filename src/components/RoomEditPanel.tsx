@@ -0,0 +1,111 @@
+import { createSignal, Show, For } from 'solid-js';
+import type { DetectedRoom, RoomEdit } from '../types';
+
+interface RoomEditPanelProps {
+  room: DetectedRoom;
+  edits: RoomEdit[]; // This room's edits, oldest first
+  busy: boolean;
+  error: string | null;
+  showBefore: boolean;
+  onSubmit: (request: string, strength: number) => void;
+  onRevert: (editId: string) => void;
+  onShowBeforeChange: (showBefore: boolean) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_STRENGTH = 0.75;
+
+export default function RoomEditPanel(props: RoomEditPanelProps) {
+  const [request, setRequest] = createSignal('');
+  const [strength, setStrength] = createSignal(DEFAULT_STRENGTH);
+
+  const canSubmit = () => request().trim().length > 0 && !props.busy;
+
+  const handleSubmit = () => {
+    if (!canSubmit()) return;
+    props.onSubmit(request().trim(), strength());
+  };
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div class="room-edit-panel" onPointerDown={(e) => e.stopPropagation()}>
+      <div class="panel-header">
+        <h3>Edit {props.room.label.toLowerCase()}</h3>
+        <button class="close-btn" onClick={props.onClose} title="Close">×</button>
+      </div>
+
+      <div class="room-edit-body">
+        <textarea
+          placeholder="What should change in this room? E.g. oak floor, a larger sofa"
+          value={request()}
+          onInput={(e) => setRequest(e.currentTarget.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+          }}
+          rows={2}
+        />
+
+        <label class="enhance-slider">
+          <span>Strength: {Math.round(strength() * 100)}%</span>
+          <input
+            type="range"
+            min="0.2"
+            max="1"
+            step="0.05"
+            value={strength()}
+            onInput={(e) => setStrength(Number(e.currentTarget.value))}
+          />
+        </label>
+
+        <Show when={props.error}>
+          <div class="room-edit-error">{props.error}</div>
+        </Show>
+
+        <button class="btn-primary" onClick={handleSubmit} disabled={!canSubmit()}>
+          {props.busy ? 'Regenerating...' : 'Regenerate room'}
+        </button>
+
+        {/* Before/after for the latest edit of this room */}
+        <Show when={props.edits.length > 0}>
+          <div class="room-edit-toggle">
+            <button
+              class={props.showBefore ? 'active' : ''}
+              onClick={() => props.onShowBeforeChange(true)}
+            >
+              Before
+            </button>
+            <button
+              class={props.showBefore ? '' : 'active'}
+              onClick={() => props.onShowBeforeChange(false)}
+            >
+              After
+            </button>
+          </div>
+
+          <div class="room-edit-history">
+            <For each={[...props.edits].reverse()}>
+              {(edit) => (
+                <div class="room-edit-entry">
+                  <div class="room-edit-entry-text">
+                    <span>{edit.prompt}</span>
+                    <small>{formatTime(edit.createdAt)} · {Math.round(edit.strength * 100)}%</small>
+                  </div>
+                  <button
+                    class="btn-secondary"
+                    onClick={() => props.onRevert(edit.id)}
+                    disabled={props.busy}
+                    title="Undo this edit and any later edits of this room"
+                  >
+                    Revert
+                  </button>
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+}
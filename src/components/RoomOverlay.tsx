@@ -0,0 +1,51 @@
+import { For } from 'solid-js';
+import type { DetectedRoom } from '../types';
+
+interface RoomOverlayProps {
+  rooms: DetectedRoom[];
+  // Natural size of the image underneath, so the overlay matches object-fit: contain
+  width: number;
+  height: number;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+export default function RoomOverlay(props: RoomOverlayProps) {
+  // Room coordinates are percentages; the viewBox is in image pixels
+  const toPoints = (room: DetectedRoom) =>
+    room.polygon.map(p => `${(p.x / 100) * props.width},${(p.y / 100) * props.height}`).join(' ');
+
+  const fontSize = () => Math.min(props.width, props.height) * 0.025;
+
+  return (
+    <svg
+      class="room-overlay"
+      viewBox={`0 0 ${props.width} ${props.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      onClick={() => props.onSelect(null)}
+    >
+      <For each={props.rooms}>
+        {(room) => (
+          <g
+            class={`room-shape ${props.selectedId === room.id ? 'selected' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              props.onSelect(props.selectedId === room.id ? null : room.id);
+            }}
+          >
+            <polygon points={toPoints(room)} />
+            <text
+              x={((room.bbox.x + room.bbox.w / 2) / 100) * props.width}
+              y={((room.bbox.y + room.bbox.h / 2) / 100) * props.height}
+              font-size={String(fontSize())}
+              text-anchor="middle"
+              dominant-baseline="middle"
+            >
+              {room.label}
+            </text>
+          </g>
+        )}
+      </For>
+    </svg>
+  );
+}
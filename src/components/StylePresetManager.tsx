@@ -0,0 +1,227 @@
+import { createSignal, Show, For } from 'solid-js';
+import type { CustomStylePreset } from '../types';
+import { loadImageFile, normalizeImage } from '../utils/fileUtils';
+import { MAX_LABEL_LENGTH, MAX_DESCRIPTION_LENGTH, MAX_PROMPT_SUFFIX_LENGTH } from '../utils/stylePresetSchema';
+import {
+  customStyles,
+  saveCustomStyle,
+  deleteCustomStyle,
+  exportCustomStyles,
+  importCustomStyles
+} from '../api/customStyles';
+
+interface StylePresetManagerProps {
+  onClose: () => void;
+}
+
+// Swatches are shown small; keep them small in IndexedDB and exports too
+const SWATCH_SIZE = 256;
+
+export default function StylePresetManager(props: StylePresetManagerProps) {
+  // Preset being edited: null when the form is closed, 'new' for a new one
+  const [editing, setEditing] = createSignal<CustomStylePreset | 'new' | null>(null);
+  const [label, setLabel] = createSignal('');
+  const [description, setDescription] = createSignal('');
+  const [promptSuffix, setPromptSuffix] = createSignal('');
+  const [swatch, setSwatch] = createSignal<string | undefined>(undefined);
+  const [saving, setSaving] = createSignal(false);
+  const [message, setMessage] = createSignal<string | null>(null);
+
+  let importInputRef: HTMLInputElement | undefined;
+
+  const openForm = (preset: CustomStylePreset | 'new') => {
+    const existing = preset === 'new' ? null : preset;
+    setLabel(existing?.label ?? '');
+    setDescription(existing?.description ?? '');
+    setPromptSuffix(existing?.promptSuffix ?? '');
+    setSwatch(existing?.swatch);
+    setMessage(null);
+    setEditing(preset);
+  };
+
+  const handleSwatch = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const { dataUrl } = await loadImageFile(file);
+      setSwatch(await normalizeImage(dataUrl, SWATCH_SIZE));
+    } catch (err) {
+      console.error('Failed to load swatch:', err);
+      setMessage('Kunne ikke lese bildet');
+    }
+  };
+
+  const handleSave = async () => {
+    const current = editing();
+    if (!current || saving()) return;
+
+    setSaving(true);
+    try {
+      await saveCustomStyle(
+        { label: label(), description: description(), promptSuffix: promptSuffix(), swatch: swatch() },
+        current === 'new' ? undefined : current.value
+      );
+      setEditing(null);
+      setMessage(null);
+    } catch (err) {
+      console.error('Failed to save style preset:', err);
+      setMessage(err instanceof Error ? err.message : 'Kunne ikke lagre stilen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: CustomStylePreset) => {
+    if (!confirm(`Slette stilen «${preset.label}»?`)) return;
+
+    try {
+      await deleteCustomStyle(preset.value);
+      if (editing() !== 'new' && (editing() as CustomStylePreset | null)?.value === preset.value) {
+        setEditing(null);
+      }
+    } catch (err) {
+      console.error('Failed to delete style preset:', err);
+      setMessage('Kunne ikke slette stilen');
+    }
+  };
+
+  // Download all presets as a versioned JSON file
+  const handleExport = () => {
+    const blob = new Blob([exportCustomStyles()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `beautiful-room-styles-${Date.now()}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: Event) => {
+    const input = e.currentTarget as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importCustomStyles(await file.text());
+      setMessage(`Importerte ${count} ${count === 1 ? 'stil' : 'stiler'}`);
+    } catch (err) {
+      console.error('Style preset import failed:', err);
+      setMessage(err instanceof Error ? err.message : 'Kunne ikke importere stiler');
+    }
+  };
+
+  return (
+    <div class="style-manager" onPointerDown={(e) => e.stopPropagation()}>
+      <div class="panel-header">
+        <h3>Egne stiler</h3>
+        <button class="close-btn" onClick={props.onClose} title="Lukk">×</button>
+      </div>
+
+      <div class="style-manager-body">
+        {/* Saved presets */}
+        <Show
+          when={customStyles().length > 0}
+          fallback={<p class="style-manager-empty">Ingen egne stiler ennå.</p>}
+        >
+          <ul class="style-manager-list">
+            <For each={customStyles()}>
+              {(preset) => (
+                <li class="style-manager-item">
+                  <Show when={preset.swatch} fallback={<span class="style-swatch empty" />}>
+                    <img class="style-swatch" src={preset.swatch} alt="" />
+                  </Show>
+                  <div class="style-manager-item-info">
+                    <strong>{preset.label}</strong>
+                    <span>{preset.description}</span>
+                  </div>
+                  <button class="btn-secondary" onClick={() => openForm(preset)}>Rediger</button>
+                  <button class="btn-secondary" onClick={() => handleDelete(preset)} title="Slett">×</button>
+                </li>
+              )}
+            </For>
+          </ul>
+        </Show>
+
+        {/* Create or edit form */}
+        <Show
+          when={editing()}
+          fallback={<button class="btn-primary" onClick={() => openForm('new')}>Ny stil</button>}
+        >
+          <div class="style-manager-form">
+            <label>
+              <span>Navn</span>
+              <input
+                type="text"
+                maxLength={MAX_LABEL_LENGTH}
+                value={label()}
+                onInput={(e) => setLabel(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              <span>Beskrivelse</span>
+              <input
+                type="text"
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                value={description()}
+                onInput={(e) => setDescription(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              <span>Prompt-tillegg</span>
+              <textarea
+                rows={4}
+                maxLength={MAX_PROMPT_SUFFIX_LENGTH}
+                placeholder="F.eks. Japandi style. Low oak furniture, linen textiles, muted earth tones."
+                value={promptSuffix()}
+                onInput={(e) => setPromptSuffix(e.currentTarget.value)}
+              />
+            </label>
+            <div class="style-manager-swatch">
+              <Show when={swatch()} fallback={<span class="style-swatch empty" />}>
+                <img class="style-swatch" src={swatch()} alt="Fargeprøve" />
+              </Show>
+              <label class="btn-secondary">
+                {swatch() ? 'Bytt fargeprøve' : 'Legg til fargeprøve'}
+                <input type="file" accept="image/*" onChange={handleSwatch} style={{ display: 'none' }} />
+              </label>
+              <Show when={swatch()}>
+                <button class="btn-secondary" onClick={() => setSwatch(undefined)}>Fjern</button>
+              </Show>
+            </div>
+            <div class="refine-actions">
+              <button class="btn-secondary" onClick={() => setEditing(null)}>Avbryt</button>
+              <button class="btn-primary" onClick={handleSave} disabled={saving()}>Lagre</button>
+            </div>
+          </div>
+        </Show>
+
+        <Show when={message()}>
+          <p class="style-manager-message">{message()}</p>
+        </Show>
+
+        {/* JSON export/import */}
+        <div class="style-manager-files">
+          <button class="btn-secondary" onClick={handleExport} disabled={customStyles().length === 0}>
+            Eksporter
+          </button>
+          <button class="btn-secondary" onClick={() => importInputRef?.click()}>
+            Importer
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,50 @@
-import { For } from 'solid-js';
-import type { StylePreset } from '../types';
-import { STYLE_CONFIGS, getStyleConfig } from '../utils/promptBuilder';
+import { For, Show } from 'solid-js';
+import type { StylePreset, StyleConfig } from '../types';
+import { STYLE_CONFIGS } from '../utils/promptBuilder';
+import { customStyles } from '../api/customStyles';
 
 interface StyleSelectorProps {
-  value: StylePreset;
-  onChange: (style: StylePreset) => void;
+  value: StylePreset[];
+  onChange: (styles: StylePreset[]) => void;
 }
 
 export default function StyleSelector(props: StyleSelectorProps) {
-  const currentConfig = () => getStyleConfig(props.value);
+  // Built-in presets first, then the user's own
+  const allStyles = (): StyleConfig[] => [...STYLE_CONFIGS, ...customStyles()];
+
+  const isSelected = (style: StylePreset) => props.value.includes(style);
+
+  // Keep the selection in list order, whatever order it was clicked in; styles
+  // not in the list (presets still loading) stay selected
+  const toggle = (style: StylePreset) => {
+    const selected = isSelected(style)
+      ? props.value.filter(s => s !== style)
+      : [...props.value, style];
+    const listed = allStyles().map(s => s.value);
+    props.onChange([
+      ...listed.filter(s => selected.includes(s)),
+      ...selected.filter(s => !listed.includes(s))
+    ]);
+  };
 
   return (
-    <div class="sidebar-section">
-      <h3>Stil</h3>
-      <select
-        class="style-select"
-        value={props.value}
-        onChange={(e) => props.onChange(e.currentTarget.value as StylePreset)}
-      >
-        <For each={STYLE_CONFIGS}>
-          {(style) => (
-            <option value={style.value}>
-              {style.label}
-            </option>
-          )}
-        </For>
-      </select>
-      <p class="style-description">
-        {currentConfig().description}
-      </p>
+    <div class="style-grid" role="group" aria-label="Stiler">
+      <For each={allStyles()}>
+        {(style) => (
+          <button
+            type="button"
+            class={`style-option ${isSelected(style.value) ? 'active' : ''}`}
+            aria-pressed={isSelected(style.value)}
+            onClick={() => toggle(style.value)}
+          >
+            <Show when={style.swatch}>
+              <img class="style-swatch" src={style.swatch} alt="" />
+            </Show>
+            <span class="style-name">{style.label}</span>
+            <span class="style-desc">{style.description}</span>
+          </button>
+        )}
+      </For>
     </div>
   );
 }
@@ -1,11 +1,17 @@
-// Style presets for rendering
-export type StylePreset =
+// Built-in style presets
+export type BuiltInStylePreset =
   | 'modern'
   | 'scandinavian'
   | 'industrial'
   | 'traditional'
   | 'colorful';
 
+// User-defined presets are stored under a "custom:" id
+export type CustomStyleId = `custom:${string}`;
+
+// Style presets for rendering
+export type StylePreset = BuiltInStylePreset | CustomStyleId;
+
 // Render state machine
 export type RenderState =
   | 'idle'
@@ -16,7 +22,7 @@ export type RenderState =
   | 'error';
 
 // View states for the main app
-export type ViewState = 'upload' | 'generating' | 'render';
+export type ViewState = 'upload' | 'annotate' | 'generating' | 'render';
 
 // Annotation types
 export type AnnotationType = 'label' | 'arrow' | 'keep' | 'change' | 'path';
@@ -26,6 +32,14 @@ export interface Point {
   y: number;
 }
 
+// Axis-aligned rectangle, in the same units as the points it is used with
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface Annotation {
   id: number;
   type: AnnotationType;
@@ -39,10 +53,23 @@ export interface Annotation {
   toY?: number;
   // For paths and polygons
   points?: Point[];
+  // Path stroke width, in 0-100 units like the points
+  strokeWidth?: number;
   // Text content
   text?: string;
 }
 
+// Line-enhancement preprocessing applied to the plan before generation
+export interface PreprocessSettings {
+  enabled: boolean;
+  removeColorFill: boolean;
+  grayscale: boolean;
+  autoContrast: boolean;
+  adaptiveThreshold: boolean;
+  thresholdBlockSize: number; // Neighbourhood size in px (odd)
+  thresholdOffset: number; // Gray levels below the local mean counted as line
+}
+
 // Project data model
 export interface Project {
   id: string;
@@ -53,14 +80,30 @@ export interface Project {
   renderUrl?: string;
   annotations: Annotation[];
   style: StylePreset;
+  preprocessing?: PreprocessSettings;
   createdAt: number;
   updatedAt: number;
 }
 
+// A render kept with a local project
+export interface ProjectRender {
+  id: string;
+  style: StylePreset;
+  data: string; // base64 data URL
+  createdAt: number;
+  parentId?: string; // Render this one refines
+  feedback?: string; // Refinement request that produced it
+  variant?: number; // 1-based variant of its style; missing means 1
+  styleConfig?: StyleConfig; // Snapshot of a custom preset, kept if the preset is deleted
+  rooms?: DetectedRoom[]; // Rooms detected on this render
+  roomEdits?: RoomEdit[]; // Per-room inpaint history, oldest first
+}
+
 // Local project (includes base64 for offline)
 export interface LocalProject extends Project {
   originalFileData?: string; // base64 data URL
   renderData?: string; // base64 data URL
+  renders?: ProjectRender[];
 }
 
 // File validation result
@@ -79,11 +122,27 @@ export interface GenerationOptions {
   annotations: Annotation[];
   feedback?: string;
   previousImage?: string;
+  variant?: number; // 1-based; later variants ask for a different take on the style
+  signal?: AbortSignal;
+  onStatus?: (state: RenderState) => void;
+}
+
+// Which styles to render and how many variants of each
+export interface GenerationSetup {
+  styles: StylePreset[];
+  variants: number;
+}
+
+// Expected cost (USD) and duration (seconds) of a generation
+export interface GenerationEstimate {
+  renders: number;
+  cost: number;
+  seconds: number;
 }
 
 // AI generation result
 export interface GenerationResult {
-  image: string | null;
+  image: string;
   description: string | null;
   model: string;
   usage?: {
@@ -93,12 +152,87 @@ export interface GenerationResult {
   };
 }
 
+// Provider-level request: prompt already assembled, images as data URLs
+export interface ImageGenerationRequest {
+  prompt: string;
+  images: string[];
+  modelKey: string;
+  signal?: AbortSignal;
+  onStatus?: (state: RenderState) => void;
+}
+
+// Image-generation backend (OpenRouter, local mock, ...)
+export interface ImageProvider {
+  id: string;
+  name: string;
+  generate: (request: ImageGenerationRequest) => Promise<GenerationResult>;
+  // Rough cost (USD) and duration (seconds) of one render with the model
+  estimate: (modelKey: string) => { cost: number; seconds: number };
+}
+
+// A room found by automatic detection. bbox and polygon are 0-100
+// percentages of the image, like annotations; featherPx is in image pixels.
+export interface DetectedRoom {
+  id: string;
+  label: string;
+  confidence: number; // 0-1
+  bbox: { x: number; y: number; w: number; h: number };
+  polygon: Point[];
+  maskUrl: string | null;
+  featherPx: number;
+}
+
+// Room-detection backend (server endpoint, local stub, ...)
+export interface RoomDetector {
+  id: string;
+  name: string;
+  detect: (image: string, signal?: AbortSignal) => Promise<DetectedRoom[]>;
+}
+
+// Provider-level inpaint request: a padded crop and its mask (white = repaint)
+export interface InpaintRequest {
+  image: string; // data URL
+  mask: string; // data URL, same size as image
+  prompt: string;
+  strength: number; // 0-1, how far the result may drift from the crop
+  seed: number;
+  signal?: AbortSignal;
+}
+
+// Inpaint backend (server endpoint, local stub, ...). Returns the repainted crop.
+export interface InpaintProvider {
+  id: string;
+  name: string;
+  inpaint: (request: InpaintRequest) => Promise<string>;
+}
+
+// One localized edit of a room; keeps only the crop it replaced and where it sits,
+// so the edit can be reverted by pasting that crop back
+export interface RoomEdit {
+  id: string;
+  roomId: string;
+  prompt: string;
+  strength: number;
+  seed: number;
+  before: string; // data URL of the padded crop around the room, before the edit
+  rect: Rect; // Where that crop sits in the full image, in pixels
+  createdAt: number;
+}
+
 // Style preset configuration
 export interface StyleConfig {
   value: StylePreset;
   label: string;
   description: string;
   promptSuffix: string;
+  swatch?: string; // Reference swatch image (data URL)
+}
+
+// A style preset saved by the user
+export interface CustomStylePreset extends StyleConfig {
+  value: CustomStyleId;
+  createdAt: number;
+  updatedAt: number;
 }
 
 // Available AI models
@@ -106,4 +240,6 @@ export interface AIModel {
   id: string;
   name: string;
   description: string;
+  costPerImage: number; // USD, approximate
+  secondsPerImage: number; // Typical time for one render
 }
@@ -0,0 +1,141 @@
+import type { Annotation, Point } from '../types';
+import { createCanvas, loadImage } from './fileUtils';
+
+// Marks are drawn in red so the refinement prompt can point at them
+const MARK_COLOR = '#e00000';
+const MARK_FILL = 'rgba(224, 0, 0, 0.18)';
+
+/**
+ * Draws a line with an arrowhead at its end
+ */
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, lineWidth: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = lineWidth * 5;
+
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Draws a closed region; keep regions are dashed so they read differently
+ */
+function drawPolygon(ctx: CanvasRenderingContext2D, points: Point[], dashed: boolean, lineWidth: number) {
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+
+  ctx.fillStyle = MARK_FILL;
+  ctx.fill();
+  ctx.setLineDash(dashed ? [lineWidth * 3, lineWidth * 2] : []);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.fillStyle = MARK_COLOR;
+}
+
+/**
+ * Draws an open freehand stroke at the given width
+ */
+function drawPath(ctx: CanvasRenderingContext2D, points: Point[], width: number) {
+  const previousWidth = ctx.lineWidth;
+  ctx.lineWidth = width;
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.stroke();
+  ctx.lineWidth = previousWidth;
+}
+
+/**
+ * Draws a text callout: a dot at the anchor and a boxed label beside it
+ */
+function drawCallout(ctx: CanvasRenderingContext2D, anchor: Point, text: string, fontSize: number) {
+  const padding = fontSize * 0.4;
+  const dotRadius = fontSize * 0.3;
+
+  ctx.beginPath();
+  ctx.arc(anchor.x, anchor.y, dotRadius, 0, Math.PI * 2);
+  ctx.fill();
+
+  if (!text) return;
+
+  ctx.font = `bold ${fontSize}px sans-serif`;
+  const width = ctx.measureText(text).width + padding * 2;
+  const height = fontSize + padding * 2;
+
+  // Keep the box on the image, flipping to the left near the right edge
+  const canvasWidth = ctx.canvas.width;
+  let x = anchor.x + dotRadius * 2;
+  if (x + width > canvasWidth) x = Math.max(0, anchor.x - dotRadius * 2 - width);
+  const y = Math.min(Math.max(0, anchor.y - height / 2), ctx.canvas.height - height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.fillRect(x, y, width, height);
+  ctx.strokeRect(x, y, width, height);
+  ctx.fillStyle = MARK_COLOR;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x + padding, y + height / 2);
+}
+
+/**
+ * Returns a copy of the image with the annotations burned in red.
+ * Annotation coordinates are 0-100 percentages of the image.
+ */
+export async function compositeAnnotations(dataUrl: string, annotations: Annotation[]): Promise<string> {
+  const img = await loadImage(dataUrl, 'compositing');
+
+  const [canvas, ctx] = createCanvas(img.width, img.height);
+
+  ctx.drawImage(img, 0, 0);
+
+  // Scale marks with the image so they read the same at any resolution
+  const size = Math.min(img.width, img.height);
+  const lineWidth = Math.max(2, size * 0.006);
+  const fontSize = Math.max(12, Math.round(size * 0.028));
+  const toPixels = (p: Point): Point => ({ x: (p.x / 100) * img.width, y: (p.y / 100) * img.height });
+
+  ctx.strokeStyle = MARK_COLOR;
+  ctx.fillStyle = MARK_COLOR;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const a of annotations) {
+    if (a.type === 'arrow' && a.fromX !== undefined && a.fromY !== undefined &&
+        a.toX !== undefined && a.toY !== undefined) {
+      drawArrow(ctx, toPixels({ x: a.fromX, y: a.fromY }), toPixels({ x: a.toX, y: a.toY }), lineWidth);
+      if (a.text) drawCallout(ctx, toPixels({ x: a.fromX, y: a.fromY }), a.text, fontSize);
+      continue;
+    }
+
+    if (a.points && a.points.length > 1) {
+      const points = a.points.map(toPixels);
+      if (a.type === 'path') {
+        // Stroke width is stored in the same 0-100 units as the points
+        const width = a.strokeWidth !== undefined ? (a.strokeWidth / 100) * size : lineWidth;
+        drawPath(ctx, points, Math.max(2, width));
+      } else {
+        drawPolygon(ctx, points, a.type === 'keep', lineWidth);
+      }
+      // Regions keep their text box at the centre, like in the editor
+      const anchor = a.x !== undefined && a.y !== undefined ? toPixels({ x: a.x, y: a.y }) : points[0];
+      if (a.text) drawCallout(ctx, anchor, a.text, fontSize);
+      continue;
+    }
+
+    if (a.x !== undefined && a.y !== undefined) {
+      const prefix = a.type === 'keep' ? 'KEEP: ' : a.type === 'change' ? 'CHANGE: ' : '';
+      const text = a.text ? `${prefix}${a.text}` : prefix.replace(': ', '');
+      drawCallout(ctx, toPixels({ x: a.x, y: a.y }), text, fontSize);
+    }
+  }
+
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { Annotation } from '../types';
+import { ANNOTATION_FORMAT, parseAnnotationDocument, serializeAnnotations } from './annotationSchema';
+
+const label: Annotation = { id: 1, type: 'label', text: 'Kitchen', x: 20, y: 30 };
+const region: Annotation = {
+  id: 2,
+  type: 'keep',
+  points: [{ x: 10, y: 10 }, { x: 40, y: 10 }, { x: 40, y: 40 }]
+};
+
+describe('parseAnnotationDocument', () => {
+  it('reads back what it serializes', () => {
+    expect(parseAnnotationDocument(serializeAnnotations([label, region]))).toEqual([label, region]);
+  });
+
+  it('upgrades a version 1 bare array, dropping the one-point keep/change points', () => {
+    const v1 = [
+      { id: 1, type: 'change', x: 50, y: 50, points: [{ x: 50, y: 50 }] },
+      { id: 2, type: 'path', points: [{ x: 0, y: 0 }, { x: 5, y: 5 }] }
+    ];
+
+    expect(parseAnnotationDocument(JSON.stringify(v1))).toEqual([
+      { id: 1, type: 'change', x: 50, y: 50 },
+      { id: 2, type: 'path', points: [{ x: 0, y: 0 }, { x: 5, y: 5 }] }
+    ]);
+  });
+
+  it('keeps only known fields and renumbers missing or duplicate ids', () => {
+    const doc = {
+      format: ANNOTATION_FORMAT,
+      version: 2,
+      annotations: [
+        { ...label, color: 'red' },
+        { ...label, x: 60 },
+        { type: 'label', text: 'Bath', x: 1, y: 2 }
+      ]
+    };
+
+    expect(parseAnnotationDocument(JSON.stringify(doc)).map(a => a.id)).toEqual([1, 2, 3]);
+    expect(parseAnnotationDocument(JSON.stringify(doc))[0]).not.toHaveProperty('color');
+  });
+
+  it('rejects files that are not annotation documents', () => {
+    expect(() => parseAnnotationDocument('{')).toThrow('Filen er ikke gyldig JSON');
+    expect(() => parseAnnotationDocument(JSON.stringify({ annotations: [] }))).toThrow('Filen inneholder ikke merknader');
+    expect(() => parseAnnotationDocument(JSON.stringify({ format: ANNOTATION_FORMAT, version: 2 })))
+      .toThrow('Filen inneholder ikke merknader');
+  });
+
+  it('rejects unknown and newer versions', () => {
+    const doc = (version: unknown) => JSON.stringify({ format: ANNOTATION_FORMAT, version, annotations: [] });
+
+    expect(() => parseAnnotationDocument(doc('two'))).toThrow('Ukjent versjon av merknadsfilen');
+    expect(() => parseAnnotationDocument(doc(3))).toThrow('nyere versjon');
+  });
+
+  it('names the first malformed annotation', () => {
+    const doc = (annotations: unknown[]) => JSON.stringify({ format: ANNOTATION_FORMAT, version: 2, annotations });
+
+    expect(() => parseAnnotationDocument(doc([label, { id: 3, type: 'circle', x: 1, y: 1 }])))
+      .toThrow('Merknad 2 er ugyldig');
+    expect(() => parseAnnotationDocument(doc([{ id: 1, type: 'arrow', fromX: 0, fromY: 0 }])))
+      .toThrow('Merknad 1 er ugyldig');
+    expect(() => parseAnnotationDocument(doc([{ id: 1, type: 'label', x: 'left', y: 0 }])))
+      .toThrow('Merknad 1 er ugyldig');
+    expect(() => parseAnnotationDocument(doc([{ id: 1, type: 'path', points: [{ x: 0, y: 0 }] }])))
+      .toThrow('Merknad 1 er ugyldig');
+  });
+});
@@ -0,0 +1,180 @@
+import type { Annotation, AnnotationType, Point } from '../types';
+import { isJsonObject, type JsonObject } from './json';
+
+// Identifies an exported annotation file
+export const ANNOTATION_FORMAT = 'beautiful-room-annotations';
+
+/**
+ * Version history of the export format:
+ * 1 - bare Annotation[] as stored in projects; keep/change are point markers
+ * 2 - wrapped in a document; keep/change are regions, paths have strokeWidth
+ */
+export const ANNOTATION_SCHEMA_VERSION = 2;
+
+export interface AnnotationDocument {
+  format: typeof ANNOTATION_FORMAT;
+  version: number;
+  exportedAt: string;
+  annotations: Annotation[];
+}
+
+const ANNOTATION_TYPES: AnnotationType[] = ['label', 'arrow', 'keep', 'change', 'path'];
+
+// Upgrades from the keyed version to the next one
+const UPGRADES: Record<number, (doc: JsonObject) => JsonObject> = {
+  1: (doc) => ({
+    format: ANNOTATION_FORMAT,
+    version: 2,
+    exportedAt: doc.exportedAt ?? new Date().toISOString(),
+    annotations: (doc.annotations as unknown[]).map(a => {
+      // Point markers kept a one-point points array that never grew
+      if (isJsonObject(a) && (a.type === 'keep' || a.type === 'change') &&
+          Array.isArray(a.points) && a.points.length < 3) {
+        const { points: _points, ...marker } = a;
+        return marker;
+      }
+      return a;
+    })
+  })
+};
+
+/**
+ * Serializes annotations as a versioned JSON document
+ */
+export function serializeAnnotations(annotations: Annotation[]): string {
+  const doc: AnnotationDocument = {
+    format: ANNOTATION_FORMAT,
+    version: ANNOTATION_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    annotations
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+/**
+ * Parses an exported document (any known version) into current annotations
+ */
+export function parseAnnotationDocument(json: string): Annotation[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Filen er ikke gyldig JSON');
+  }
+
+  // Version 1 files are a bare array
+  let doc: JsonObject;
+  if (Array.isArray(data)) {
+    doc = { version: 1, annotations: data };
+  } else if (isJsonObject(data) && data.format === ANNOTATION_FORMAT) {
+    doc = data;
+  } else {
+    throw new Error('Filen inneholder ikke merknader');
+  }
+
+  const version = Number(doc.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Ukjent versjon av merknadsfilen');
+  }
+  if (version > ANNOTATION_SCHEMA_VERSION) {
+    throw new Error('Merknadsfilen er laget av en nyere versjon av appen');
+  }
+  if (!Array.isArray(doc.annotations)) {
+    throw new Error('Filen inneholder ikke merknader');
+  }
+
+  for (let v = version; v < ANNOTATION_SCHEMA_VERSION; v++) {
+    doc = UPGRADES[v](doc);
+  }
+
+  return normalizeIds((doc.annotations as unknown[]).map(validateAnnotation));
+}
+
+/**
+ * Checks one annotation against the current schema, keeping only known fields
+ */
+function validateAnnotation(value: unknown, index: number): Annotation {
+  const invalid = () => new Error(`Merknad ${index + 1} er ugyldig`);
+
+  if (!isJsonObject(value)) throw invalid();
+  const a = value;
+
+  if (!isAnnotationType(a.type)) throw invalid();
+
+  const annotation: Annotation = {
+    id: typeof a.id === 'number' && Number.isInteger(a.id) ? a.id : 0,
+    type: a.type
+  };
+
+  const numberFields = ['x', 'y', 'fromX', 'fromY', 'toX', 'toY', 'strokeWidth'] as const;
+  for (const field of numberFields) {
+    const fieldValue = a[field];
+    if (fieldValue === undefined) continue;
+    if (!isFiniteNumber(fieldValue)) throw invalid();
+    annotation[field] = fieldValue;
+  }
+
+  if (a.points !== undefined) {
+    if (!Array.isArray(a.points) || !a.points.every(isPoint)) throw invalid();
+    annotation.points = a.points.map((p: Point) => ({ x: p.x, y: p.y }));
+  }
+
+  if (a.text !== undefined) {
+    if (typeof a.text !== 'string') throw invalid();
+    annotation.text = a.text;
+  }
+
+  // Each type needs its geometry
+  const hasPoint = annotation.x !== undefined && annotation.y !== undefined;
+  const hasArrow = annotation.fromX !== undefined && annotation.fromY !== undefined &&
+    annotation.toX !== undefined && annotation.toY !== undefined;
+  const pointCount = annotation.points?.length ?? 0;
+
+  const valid =
+    annotation.type === 'label' ? hasPoint :
+    annotation.type === 'arrow' ? hasArrow :
+    annotation.type === 'path' ? pointCount >= 2 :
+    hasPoint || pointCount >= 3;
+
+  if (!valid) throw invalid();
+  return annotation;
+}
+
+/**
+ * Gives every annotation a unique positive id, keeping existing ones where possible
+ */
+function normalizeIds(annotations: Annotation[]): Annotation[] {
+  const used = new Set<number>();
+  let next = Math.max(0, ...annotations.map(a => a.id)) + 1;
+
+  return annotations.map(a => {
+    if (a.id > 0 && !used.has(a.id)) {
+      used.add(a.id);
+      return a;
+    }
+    const id = next++;
+    used.add(id);
+    return { ...a, id };
+  });
+}
+
+/**
+ * Checks for a real number (not NaN or Infinity)
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Checks for an { x, y } object with numeric coordinates
+ */
+function isPoint(value: unknown): value is Point {
+  return isJsonObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+}
+
+/**
+ * Checks for one of the known annotation types
+ */
+function isAnnotationType(value: unknown): value is AnnotationType {
+  return ANNOTATION_TYPES.includes(value as AnnotationType);
+}
@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { normalizedRectCorners } from './annotationUtils';
+
+describe('normalizedRectCorners', () => {
+  it('orders corners top-left, top-right, bottom-right, bottom-left', () => {
+    const expected = [{ x: 0, y: -2 }, { x: 12, y: -2 }, { x: 12, y: 10 }, { x: 0, y: 10 }];
+    // Dragging the top-right corner of a 10x10 square past its top edge
+    expect(normalizedRectCorners({ x: 0, y: 10 }, { x: 12, y: -2 })).toEqual(expected);
+    expect(normalizedRectCorners({ x: 12, y: -2 }, { x: 0, y: 10 })).toEqual(expected);
+  });
+});
@@ -0,0 +1,174 @@
+import type { Annotation, Point, Rect } from '../types';
+
+/**
+ * Maps every coordinate of every annotation through a point transform.
+ * Coordinates are 0-100 percentages of the image, before and after.
+ */
+export function mapAnnotationPoints(
+  annotations: Annotation[],
+  mapPoint: (p: Point) => Point
+): Annotation[] {
+  return annotations.map(a => {
+    const mapped: Annotation = { ...a };
+
+    if (a.x !== undefined && a.y !== undefined) {
+      const p = mapPoint({ x: a.x, y: a.y });
+      mapped.x = p.x;
+      mapped.y = p.y;
+    }
+
+    if (a.fromX !== undefined && a.fromY !== undefined) {
+      const p = mapPoint({ x: a.fromX, y: a.fromY });
+      mapped.fromX = p.x;
+      mapped.fromY = p.y;
+    }
+
+    if (a.toX !== undefined && a.toY !== undefined) {
+      const p = mapPoint({ x: a.toX, y: a.toY });
+      mapped.toX = p.x;
+      mapped.toY = p.y;
+    }
+
+    if (a.points) {
+      mapped.points = a.points.map(mapPoint);
+    }
+
+    return mapped;
+  });
+}
+
+/**
+ * Returns the point mapper matching a clockwise rotation of the image
+ */
+export function rotatePointMapper(degrees: 90 | 180 | 270): (p: Point) => Point {
+  switch (degrees) {
+    case 90:
+      return p => ({ x: 100 - p.y, y: p.x });
+    case 180:
+      return p => ({ x: 100 - p.x, y: 100 - p.y });
+    case 270:
+      return p => ({ x: p.y, y: 100 - p.x });
+  }
+}
+
+/**
+ * Returns the point mapper matching a crop to the given 0-100 rectangle
+ */
+export function cropPointMapper(rect: Rect): (p: Point) => Point {
+  return p => ({
+    x: ((p.x - rect.x) / rect.width) * 100,
+    y: ((p.y - rect.y) / rect.height) * 100
+  });
+}
+
+/**
+ * Pulls a point back inside the image, e.g. the parts of a shape a crop cut off
+ */
+export function clampPointToImage(p: Point): Point {
+  return {
+    x: Math.max(0, Math.min(100, p.x)),
+    y: Math.max(0, Math.min(100, p.y))
+  };
+}
+
+/**
+ * Checks whether any part of an annotation lies within the image
+ */
+export function isAnnotationInBounds(a: Annotation): boolean {
+  const inBounds = (x?: number, y?: number) =>
+    x !== undefined && y !== undefined && x >= 0 && x <= 100 && y >= 0 && y <= 100;
+
+  return (
+    inBounds(a.x, a.y) ||
+    inBounds(a.fromX, a.fromY) ||
+    inBounds(a.toX, a.toY) ||
+    (a.points?.some(p => inBounds(p.x, p.y)) ?? false)
+  );
+}
+
+/**
+ * Returns the mean of a set of points, used to anchor a region's text box
+ */
+export function getPointsCenter(points: Point[]): Point {
+  if (points.length === 0) return { x: 0, y: 0 };
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+/**
+ * Returns the four corners of the rectangle spanned by two points
+ */
+export function rectCorners(a: Point, b: Point): Point[] {
+  return [
+    { x: a.x, y: a.y },
+    { x: b.x, y: a.y },
+    { x: b.x, y: b.y },
+    { x: a.x, y: b.y }
+  ];
+}
+
+/**
+ * Corners of the rectangle spanned by two points, always top-left, top-right,
+ * bottom-right, bottom-left whichever way round the points are
+ */
+export function normalizedRectCorners(a: Point, b: Point): Point[] {
+  return rectCorners(
+    { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+    { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) }
+  );
+}
+
+/**
+ * Smooths a freehand stroke with Chaikin corner cutting, keeping its end points
+ */
+export function smoothPath(points: Point[], iterations = 2): Point[] {
+  let result = points;
+
+  for (let n = 0; n < iterations && result.length > 2; n++) {
+    const next: Point[] = [result[0]];
+    for (let i = 0; i < result.length - 1; i++) {
+      const a = result[i];
+      const b = result[i + 1];
+      next.push({ x: a.x * 0.75 + b.x * 0.25, y: a.y * 0.75 + b.y * 0.25 });
+      next.push({ x: a.x * 0.25 + b.x * 0.75, y: a.y * 0.25 + b.y * 0.75 });
+    }
+    next.push(result[result.length - 1]);
+    result = next;
+  }
+
+  return result;
+}
+
+/**
+ * Drops points that lie within `tolerance` of the line through their
+ * neighbours (Ramer-Douglas-Peucker)
+ */
+export function simplifyPath(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const length = Math.hypot(dx, dy);
+
+  // Furthest point from the chord between the end points
+  let maxDistance = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const distance = length === 0
+      ? Math.hypot(p.x - first.x, p.y - first.y)
+      : Math.abs(dy * p.x - dx * p.y + last.x * first.y - last.y * first.x) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) return [first, last];
+
+  const left = simplifyPath(points.slice(0, index + 1), tolerance);
+  const right = simplifyPath(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
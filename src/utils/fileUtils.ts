@@ -1,10 +1,21 @@
-import type { FileValidation } from '../types';
+import type { FileValidation, PreprocessSettings, Rect } from '../types';
 
-// Supported file types
+// Supported file types (PDFs are rasterized to PNG before validation)
 const SUPPORTED_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/avif'];
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
-const MIN_DIMENSION = 800; // Minimum 800px on shortest side
-const MAX_DIMENSION = 4096; // Maximum 4096px on longest side
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+export const MIN_DIMENSION = 800; // Minimum 800px on shortest side
+export const MAX_DIMENSION = 4096; // Maximum 4096px on longest side
+
+// Default line-enhancement settings (off until the user opts in)
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: false,
+  removeColorFill: false,
+  grayscale: true,
+  autoContrast: true,
+  adaptiveThreshold: false,
+  thresholdBlockSize: 31,
+  thresholdOffset: 10
+};
 
 /**
  * Validates an uploaded file for type, size, and dimensions
@@ -14,17 +25,14 @@ export async function validateFile(file: File): Promise<FileValidation> {
   if (!SUPPORTED_TYPES.includes(file.type)) {
     return {
       valid: false,
-      error: `Ugyldig filtype. Støttede formater: PNG, JPEG, AVIF`
+      error: `Ugyldig filtype. Støttede formater: PNG, JPEG, AVIF, PDF`
     };
   }
 
   // Check file size
-  if (file.size > MAX_FILE_SIZE) {
-    const sizeMB = (file.size / (1024 * 1024)).toFixed(1);
-    return {
-      valid: false,
-      error: `Filen er for stor (${sizeMB} MB). Maksimal størrelse er 10 MB`
-    };
+  const sizeError = checkFileSize(file);
+  if (sizeError) {
+    return { valid: false, error: sizeError };
   }
 
   // Load image to check dimensions
@@ -61,6 +69,16 @@ export async function validateFile(file: File): Promise<FileValidation> {
   }
 }
 
+/**
+ * Returns an error message if the file exceeds the upload size limit
+ */
+export function checkFileSize(file: File): string | null {
+  if (file.size <= MAX_FILE_SIZE) return null;
+
+  const sizeMB = (file.size / (1024 * 1024)).toFixed(1);
+  return `Filen er for stor (${sizeMB} MB). Maksimal størrelse er 10 MB`;
+}
+
 /**
  * Loads a file and returns its data URL and dimensions
  */
@@ -95,6 +113,41 @@ export function loadImageFile(file: File): Promise<{ dataUrl: string; width: num
   });
 }
 
+/**
+ * Loads a data URL, or a CORS-enabled URL such as a detector mask, into an image
+ * element; `purpose` finishes the error message ("Failed to load image for ...")
+ */
+export function loadImage(src: string, purpose = 'processing'): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    // Without this a remote image taints the canvas and toDataURL throws
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image for ${purpose}`));
+    img.src = src;
+  });
+}
+
+/**
+ * Creates a canvas and its 2D context
+ */
+export function createCanvas(
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings
+): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d', settings);
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  return [canvas, ctx];
+}
+
 /**
  * Normalizes an image by resizing if needed and converting to PNG
  */
@@ -145,6 +198,141 @@ export async function normalizeImage(
   });
 }
 
+/**
+ * Enhances floorplan lines: removes colored fill, converts to grayscale,
+ * stretches contrast and applies adaptive thresholding, in that order
+ */
+export async function enhanceImage(
+  dataUrl: string,
+  settings: PreprocessSettings
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      // White background for transparent PNGs
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const { data } = pixels;
+
+      // Colored fill: saturated, not-too-dark pixels become white
+      if (settings.removeColorFill) {
+        for (let i = 0; i < data.length; i += 4) {
+          const max = Math.max(data[i], data[i + 1], data[i + 2]);
+          const min = Math.min(data[i], data[i + 1], data[i + 2]);
+          if (max - min > 40 && max > 80) {
+            data[i] = data[i + 1] = data[i + 2] = 255;
+          }
+        }
+      }
+
+      // Thresholding works on luminance, so it implies grayscale
+      if (settings.grayscale || settings.adaptiveThreshold) {
+        for (let i = 0; i < data.length; i += 4) {
+          const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+          data[i] = data[i + 1] = data[i + 2] = gray;
+        }
+      }
+
+      if (settings.autoContrast) {
+        stretchContrast(data);
+      }
+
+      if (settings.adaptiveThreshold) {
+        adaptiveThreshold(pixels, settings.thresholdBlockSize, settings.thresholdOffset);
+      }
+
+      ctx.putImageData(pixels, 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for enhancement'));
+    };
+
+    img.src = dataUrl;
+  });
+}
+
+/**
+ * Stretches luminance so the 1st-99th percentile range covers 0-255
+ */
+function stretchContrast(data: Uint8ClampedArray): void {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+  }
+
+  const total = data.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] < total * 0.01; low++) {
+    count += histogram[low];
+  }
+  for (let count = 0; high > 0 && count + histogram[high] < total * 0.01; high--) {
+    count += histogram[high];
+  }
+
+  if (high <= low) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - low) * scale;
+    data[i + 1] = (data[i + 1] - low) * scale;
+    data[i + 2] = (data[i + 2] - low) * scale;
+  }
+}
+
+/**
+ * Turns grayscale pixels black or white by comparing each one with
+ * the mean of its neighbourhood (computed with an integral image)
+ */
+function adaptiveThreshold(pixels: ImageData, blockSize: number, offset: number): void {
+  const { width, height, data } = pixels;
+  const integral = new Float64Array((width + 1) * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.floor(blockSize / 2);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum =
+        integral[y1 * (width + 1) + x1] -
+        integral[y0 * (width + 1) + x1] -
+        integral[y1 * (width + 1) + x0] +
+        integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+
+      const i = (y * width + x) * 4;
+      const value = data[i] < mean - offset ? 0 : 255;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    }
+  }
+}
+
 /**
  * Rotates an image by the specified degrees (90, 180, 270)
  */
@@ -189,6 +377,42 @@ export async function rotateImage(
   });
 }
 
+/**
+ * Crops an image to a rectangle given in 0-100 percentages of its size
+ */
+export async function cropImage(dataUrl: string, rect: Rect): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      const sx = Math.round((rect.x / 100) * img.width);
+      const sy = Math.round((rect.y / 100) * img.height);
+      const sw = Math.max(1, Math.round((rect.width / 100) * img.width));
+      const sh = Math.max(1, Math.round((rect.height / 100) * img.height));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = sw;
+      canvas.height = sh;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+
+      resolve(canvas.toDataURL('image/png'));
+    };
+
+    img.onerror = () => {
+      reject(new Error('Failed to load image for cropping'));
+    };
+
+    img.src = dataUrl;
+  });
+}
+
 /**
  * Generates a unique ID for projects
  */
@@ -219,3 +443,15 @@ export function getOrCreateClientId(): string {
 
   return clientId;
 }
+
+/**
+ * FNV-1a hash of a string, e.g. to key caches by image content
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,61 @@
+import type { GenerationSetup, StylePreset } from '../types';
+import { STYLE_CONFIGS } from './promptBuilder';
+
+// What a client gets before they have chosen anything
+export const DEFAULT_GENERATION_SETUP: GenerationSetup = {
+  styles: ['modern', 'traditional'],
+  variants: 1
+};
+
+export const MAX_VARIANTS = 4;
+
+// Renders of one generation run at most this many at a time
+export const MAX_PARALLEL_RENDERS = 4;
+
+const storageKey = (clientId: string) => `homevision_generation_setup_${clientId}`;
+
+/**
+ * Keeps a variant count within 1..MAX_VARIANTS
+ */
+export function clampVariants(variants: number): number {
+  return Math.max(1, Math.min(MAX_VARIANTS, Math.round(variants)));
+}
+
+/**
+ * Checks that a stored value looks like a built-in or custom preset id
+ */
+function isStylePreset(value: unknown): value is StylePreset {
+  return typeof value === 'string' &&
+    (STYLE_CONFIGS.some(s => s.value === value) || value.startsWith('custom:'));
+}
+
+/**
+ * Loads the setup the client last generated with, or the default
+ */
+export function loadGenerationSetup(clientId: string): GenerationSetup {
+  try {
+    const raw = localStorage.getItem(storageKey(clientId));
+    if (!raw) return DEFAULT_GENERATION_SETUP;
+
+    const data = JSON.parse(raw);
+    const styles: StylePreset[] = Array.isArray(data?.styles) ? data.styles.filter(isStylePreset) : [];
+    const variants = Number(data?.variants);
+    if (styles.length === 0 || !Number.isFinite(variants)) return DEFAULT_GENERATION_SETUP;
+
+    return { styles, variants: clampVariants(variants) };
+  } catch (err) {
+    console.error('Failed to load generation setup:', err);
+    return DEFAULT_GENERATION_SETUP;
+  }
+}
+
+/**
+ * Remembers the setup for the client's next generation
+ */
+export function saveGenerationSetup(clientId: string, setup: GenerationSetup): void {
+  try {
+    localStorage.setItem(storageKey(clientId), JSON.stringify(setup));
+  } catch (err) {
+    console.error('Failed to save generation setup:', err);
+  }
+}
@@ -0,0 +1,9 @@
+// A parsed JSON object whose fields still need checking
+export type JsonObject = Record<string, unknown>;
+
+/**
+ * Narrows a parsed JSON value to an object (not null or an array)
+ */
+export function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,139 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { MIN_DIMENSION, MAX_DIMENSION } from './fileUtils';
+
+// Longest side we aim for when rasterizing a page
+const TARGET_DIMENSION = 2048;
+// Longest side of page picker thumbnails
+const THUMBNAIL_DIMENSION = 240;
+
+export interface PdfPageThumbnail {
+  pageNumber: number;
+  dataUrl: string;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+/**
+ * Lazily loads pdf.js and points it at the bundled worker
+ */
+async function getPdfjs(): Promise<typeof import('pdfjs-dist')> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = Promise.all([
+      import('pdfjs-dist'),
+      import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+    ]).then(([pdfjs, worker]) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+/**
+ * Checks whether a file is a PDF document
+ */
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Opens a PDF file for page rendering
+ */
+export async function loadPdfDocument(file: File): Promise<PDFDocumentProxy> {
+  const pdfjs = await getPdfjs();
+  const data = new Uint8Array(await file.arrayBuffer());
+  return pdfjs.getDocument({ data }).promise;
+}
+
+/**
+ * Picks a render scale so the page passes validateFile's dimension checks
+ */
+export function getRasterScale(width: number, height: number): number {
+  const shortSide = Math.min(width, height);
+  const longSide = Math.max(width, height);
+
+  let scale = TARGET_DIMENSION / longSide;
+
+  // Very elongated pages: grow until the short side is large enough
+  if (shortSide * scale < MIN_DIMENSION) {
+    scale = MIN_DIMENSION / shortSide;
+  }
+
+  // Never exceed the maximum, even if the short side ends up too small
+  return Math.min(scale, MAX_DIMENSION / longSide);
+}
+
+/**
+ * Renders one page onto a canvas at the given scale
+ */
+async function renderPageToCanvas(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  getScale: (width: number, height: number) => number
+): Promise<HTMLCanvasElement> {
+  const page = await doc.getPage(pageNumber);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({
+    scale: getScale(baseViewport.width, baseViewport.height)
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // White background - PDF pages are transparent by default
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+
+  return canvas;
+}
+
+/**
+ * Renders small previews of every page for the page picker
+ */
+export async function renderPdfThumbnails(doc: PDFDocumentProxy): Promise<PdfPageThumbnail[]> {
+  const thumbnails: PdfPageThumbnail[] = [];
+
+  // Render one page at a time to keep memory use low on large documents
+  for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+    const canvas = await renderPageToCanvas(
+      doc,
+      pageNumber,
+      (width, height) => THUMBNAIL_DIMENSION / Math.max(width, height)
+    );
+    thumbnails.push({ pageNumber, dataUrl: canvas.toDataURL('image/png') });
+  }
+
+  return thumbnails;
+}
+
+/**
+ * Rasterizes a PDF page to a PNG file that can go through validateFile
+ */
+export async function rasterizePdfPage(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  sourceName: string
+): Promise<File> {
+  const canvas = await renderPageToCanvas(doc, pageNumber, getRasterScale);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      b => (b ? resolve(b) : reject(new Error('Failed to encode PDF page'))),
+      'image/png'
+    );
+  });
+
+  const baseName = sourceName.replace(/\.pdf$/i, '');
+  const name = doc.numPages > 1 ? `${baseName}-page-${pageNumber}.png` : `${baseName}.png`;
+
+  return new File([blob], name, { type: 'image/png' });
+}
@@ -0,0 +1,364 @@
+import type { Point } from '../types';
+import { createCanvas, loadImage } from './fileUtils';
+
+// 3x3 projective transform, row-major
+export type Homography = number[];
+
+// Working size for corner and skew detection
+const DETECT_DIMENSION = 400;
+const SKEW_DIMENSION = 800;
+// Deskew search range and step, in degrees
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.2;
+
+/**
+ * Solves the homography mapping four source points onto four destination points
+ */
+export function solveHomography(src: Point[], dst: Point[]): Homography {
+  // Build the 8x9 augmented system for h0..h7 (h8 = 1)
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      throw new Error('Corners do not form a valid quadrilateral');
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) {
+        rows[r][c] -= factor * rows[col][c];
+      }
+    }
+  }
+
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
+
+/**
+ * Applies a homography to a point
+ */
+export function applyHomography(h: Homography, p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w
+  };
+}
+
+// Output rectangle corners in 0-100 space: top-left, top-right, bottom-right, bottom-left
+const UNIT_CORNERS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 100, y: 100 },
+  { x: 0, y: 100 }
+];
+
+/**
+ * Returns the point mapper matching a perspective correction to the given corners.
+ * Corners are 0-100 percentages in top-left, top-right, bottom-right, bottom-left order.
+ */
+export function perspectivePointMapper(corners: Point[]): (p: Point) => Point {
+  const h = solveHomography(corners, UNIT_CORNERS);
+  return p => applyHomography(h, p);
+}
+
+/**
+ * Draws an image onto a canvas, optionally downscaled, and returns its pixels
+ */
+function getImagePixels(img: HTMLImageElement, maxSize?: number): ImageData {
+  let { width, height } = img;
+  if (maxSize && (width > maxSize || height > maxSize)) {
+    const ratio = Math.min(maxSize / width, maxSize / height);
+    width = Math.round(width * ratio);
+    height = Math.round(height * ratio);
+  }
+
+  const [canvas, ctx] = createCanvas(width, height);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Converts RGBA pixels to a luminance array
+ */
+function toGrayscale(pixels: ImageData): Uint8Array {
+  const { data } = pixels;
+  const gray = new Uint8Array(pixels.width * pixels.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  return gray;
+}
+
+/**
+ * Finds the threshold that best separates dark and light pixels (Otsu's method)
+ */
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array(256).fill(0);
+  for (const v of gray) histogram[v]++;
+
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = i;
+    }
+  }
+
+  return threshold;
+}
+
+/**
+ * Warps the quadrilateral given by four 0-100 corners onto a flat rectangle
+ */
+export async function warpPerspective(dataUrl: string, corners: Point[]): Promise<string> {
+  const img = await loadImage(dataUrl, 'perspective correction');
+  const source = getImagePixels(img);
+  const { width: sw, height: sh, data: src } = source;
+
+  // Corners in source pixels
+  const srcCorners = corners.map(c => ({ x: (c.x / 100) * sw, y: (c.y / 100) * sh }));
+  const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+  // Output size from the longest opposite edges
+  const width = Math.max(1, Math.round(Math.max(dist(srcCorners[0], srcCorners[1]), dist(srcCorners[3], srcCorners[2]))));
+  const height = Math.max(1, Math.round(Math.max(dist(srcCorners[0], srcCorners[3]), dist(srcCorners[1], srcCorners[2]))));
+
+  // Map each output pixel back to the source
+  const dstCorners: Point[] = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height }
+  ];
+  const h = solveHomography(dstCorners, srcCorners);
+
+  const [canvas, ctx] = createCanvas(width, height);
+
+  const output = ctx.createImageData(width, height);
+  const out = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = p.x - 0.5;
+      const sy = p.y - 0.5;
+      const o = (y * width + x) * 4;
+
+      // Outside the source: fill white
+      if (sx < 0 || sy < 0 || sx > sw - 1 || sy > sh - 1) {
+        out[o] = out[o + 1] = out[o + 2] = out[o + 3] = 255;
+        continue;
+      }
+
+      // Bilinear sample
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, sw - 1);
+      const y1 = Math.min(y0 + 1, sh - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      for (let c = 0; c < 4; c++) {
+        const top = src[(y0 * sw + x0) * 4 + c] * (1 - fx) + src[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - fx) + src[(y1 * sw + x1) * 4 + c] * fx;
+        out[o + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Detects the corners of a sheet of paper photographed against a darker background.
+ * Returns 0-100 corners, or null if no distinct sheet is found.
+ */
+export async function detectDocumentCorners(dataUrl: string): Promise<Point[] | null> {
+  const img = await loadImage(dataUrl, 'perspective correction');
+  const pixels = getImagePixels(img, DETECT_DIMENSION);
+  const { width, height } = pixels;
+  const gray = toGrayscale(pixels);
+  const threshold = otsuThreshold(gray);
+
+  // Largest connected bright region is taken to be the paper
+  const labels = new Int32Array(gray.length).fill(-1);
+  let bestLabel = -1;
+  let bestSize = 0;
+  let label = 0;
+  const stack: number[] = [];
+
+  for (let start = 0; start < gray.length; start++) {
+    if (labels[start] !== -1 || gray[start] <= threshold) continue;
+
+    let size = 0;
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const x = i % width;
+      const y = (i - x) / width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && labels[n] === -1 && gray[n] > threshold) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+    label++;
+  }
+
+  // Reject when the sheet is tiny or fills the whole frame (nothing to correct)
+  const coverage = bestSize / gray.length;
+  if (bestLabel === -1 || coverage < 0.2 || coverage > 0.97) {
+    return null;
+  }
+
+  // Extreme points along the diagonals approximate the corners
+  let tl = { x: 0, y: 0, score: Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: Infinity };
+
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] !== bestLabel) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x + y < tl.score) tl = { x, y, score: x + y };
+    if (x - y > tr.score) tr = { x, y, score: x - y };
+    if (x + y > br.score) br = { x, y, score: x + y };
+    if (x - y < bl.score) bl = { x, y, score: x - y };
+  }
+
+  return [tl, tr, br, bl].map(c => ({
+    x: (c.x / width) * 100,
+    y: (c.y / height) * 100
+  }));
+}
+
+/**
+ * Estimates how far the plan's lines are tilted, in degrees (clockwise positive)
+ */
+export async function detectSkewAngle(dataUrl: string): Promise<number> {
+  const img = await loadImage(dataUrl, 'perspective correction');
+  const pixels = getImagePixels(img, SKEW_DIMENSION);
+  const { width, height } = pixels;
+  const gray = toGrayscale(pixels);
+  const threshold = otsuThreshold(gray);
+
+  // Collect dark (line) pixels relative to the centre
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < gray.length; i++) {
+    if (gray[i] < threshold) {
+      const x = i % width;
+      xs.push(x - width / 2);
+      ys.push((i - x) / width - height / 2);
+    }
+  }
+
+  if (xs.length === 0) return 0;
+
+  // Projection profile: rows line up sharpest at the correct angle
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW + 1e-9; angle += SKEW_STEP) {
+    const rad = (angle * Math.PI) / 180;
+    const sin = Math.sin(rad);
+    const cos = Math.cos(rad);
+    const bins = new Uint32Array(diagonal);
+
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(-xs[i] * sin + ys[i] * cos + diagonal / 2);
+      if (row >= 0 && row < diagonal) bins[row]++;
+    }
+
+    let score = 0;
+    for (const count of bins) score += count * count;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return Math.round(bestAngle * 100) / 100;
+}
+
+/**
+ * Returns 0-100 corners that straighten an image tilted by the given angle
+ */
+export function deskewCorners(angle: number, width: number, height: number): Point[] {
+  const rad = (angle * Math.PI) / 180;
+  const sin = Math.sin(rad);
+  const cos = Math.cos(rad);
+
+  return UNIT_CORNERS.map(c => {
+    // Rotate the image rectangle about its centre, in pixels
+    const x = ((c.x - 50) / 100) * width;
+    const y = ((c.y - 50) / 100) * height;
+    return {
+      x: ((x * cos - y * sin) / width) * 100 + 50,
+      y: ((x * sin + y * cos) / height) * 100 + 50
+    };
+  });
+}
+
+/**
+ * Returns the full-image corners, i.e. no correction
+ */
+export function defaultCorners(): Point[] {
+  return UNIT_CORNERS.map(c => ({ ...c }));
+}
@@ -0,0 +1,106 @@
+import type { Point } from '../types';
+
+// Movement between two pinch updates: zoom factor and how far the midpoint moved (px)
+export interface PinchUpdate {
+  scale: number;
+  dx: number;
+  dy: number;
+  center: Point; // Client coordinates of the midpoint
+}
+
+/**
+ * Tracks the pointers down on an element and reports two-finger pinch/pan
+ */
+export function createPinchTracker() {
+  const pointers = new Map<number, Point>();
+  let last: { distance: number; center: Point } | null = null;
+
+  const measure = () => {
+    const [a, b] = [...pointers.values()];
+    return {
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    };
+  };
+
+  return {
+    add(e: PointerEvent) {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      last = pointers.size === 2 ? measure() : null;
+    },
+
+    // Returns the change since the previous update while exactly two pointers are down
+    move(e: PointerEvent): PinchUpdate | null {
+      if (!pointers.has(e.pointerId)) return null;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size !== 2 || !last) return null;
+
+      const now = measure();
+      const update = {
+        scale: now.distance / last.distance,
+        dx: now.center.x - last.center.x,
+        dy: now.center.y - last.center.y,
+        center: now.center
+      };
+      last = now;
+      return update;
+    },
+
+    remove(e: PointerEvent) {
+      pointers.delete(e.pointerId);
+      last = pointers.size === 2 ? measure() : null;
+    },
+
+    get count() {
+      return pointers.size;
+    }
+  };
+}
+
+/**
+ * Calls back when a pointer is held still for `delayMs`
+ */
+export function createLongPress(delayMs = 500, tolerancePx = 10) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let start: Point = { x: 0, y: 0 };
+
+  const cancel = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    start(e: PointerEvent, onLongPress: () => void) {
+      cancel();
+      start = { x: e.clientX, y: e.clientY };
+      timer = setTimeout(() => {
+        timer = null;
+        onLongPress();
+      }, delayMs);
+    },
+
+    // Moving further than the tolerance turns the press into a drag
+    move(e: PointerEvent) {
+      if (timer !== null && Math.hypot(e.clientX - start.x, e.clientY - start.y) > tolerancePx) {
+        cancel();
+      }
+    },
+
+    cancel
+  };
+}
+
+/**
+ * Returns the pan that keeps the content under `origin` in place when zooming.
+ * `origin` is relative to the centre of the zoomed element's container, which
+ * is also the transform origin.
+ */
+export function panForZoom(pan: Point, zoom: number, newZoom: number, origin: Point): Point {
+  const ratio = newZoom / zoom;
+  return {
+    x: origin.x - (origin.x - pan.x) * ratio,
+    y: origin.y - (origin.y - pan.y) * ratio
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { Annotation, CustomStylePreset } from '../types';
+import { buildAnnotationInstructions, buildPrompt, getStyleConfig, setCustomStyleConfigs } from './promptBuilder';
+
+const kitchen: Annotation = { id: 1, type: 'label', text: 'Kitchen', x: 20, y: 20 };
+const balcony: Annotation = { id: 2, type: 'label', text: 'Balcony', x: 80, y: 80 };
+const bedroom: Annotation = { id: 3, type: 'label', text: 'Bedroom', x: 80, y: 20 };
+
+/**
+ * Arrow annotation between two points
+ */
+function arrow(fromX: number, fromY: number, toX: number, toY: number): Annotation {
+  return { id: 10, type: 'arrow', fromX, fromY, toX, toY };
+}
+
+describe('buildAnnotationInstructions arrows', () => {
+  it('names rooms the arrow starts and ends in', () => {
+    const text = buildAnnotationInstructions([kitchen, balcony, arrow(21, 21, 79, 79)]);
+    expect(text).toContain('Arrow from the Kitchen pointing toward the Balcony');
+  });
+
+  it('names the area near a room', () => {
+    const text = buildAnnotationInstructions([kitchen, balcony, arrow(21, 21, 68, 90)]);
+    expect(text).toContain('pointing toward the area near the Balcony');
+  });
+
+  it('names the area between two rooms', () => {
+    const text = buildAnnotationInstructions([kitchen, bedroom, arrow(50, 20, 20, 90)]);
+    expect(text).toContain('Arrow from the area between the Kitchen and the Bedroom');
+  });
+
+  it('falls back to the position on the plan', () => {
+    const text = buildAnnotationInstructions([arrow(10, 10, 90, 90)]);
+    expect(text).toContain('Arrow from the upper-left quadrant pointing toward the lower-right quadrant');
+  });
+
+  it('keeps place phrases for regions', () => {
+    const keep: Annotation = { id: 11, type: 'keep', x: 21, y: 21 };
+    expect(buildAnnotationInstructions([kitchen, keep])).toContain('Keep the region in the Kitchen (upper-left quadrant)');
+  });
+});
+
+describe('getStyleConfig custom presets', () => {
+  const loft: CustomStylePreset = {
+    value: 'custom:loft',
+    label: 'Loft',
+    description: 'Brick and steel',
+    promptSuffix: 'Brick loft style.',
+    createdAt: 1,
+    updatedAt: 1
+  };
+
+  it('keeps a preset deleted this session for the renders made with it', () => {
+    setCustomStyleConfigs([loft]);
+    setCustomStyleConfigs([]);
+
+    expect(getStyleConfig('custom:loft').label).toBe('Loft');
+    expect(buildPrompt([], 'custom:loft')).toContain('Brick loft style.');
+  });
+
+  it('reports an unknown preset as missing instead of using a built-in one', () => {
+    const config = getStyleConfig('custom:gone');
+
+    expect(config.value).toBe('custom:gone');
+    expect(config.label).toBe('Manglende stil');
+    expect(buildPrompt([], 'custom:gone')).not.toContain(getStyleConfig('modern').promptSuffix);
+  });
+});
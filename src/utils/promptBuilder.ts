@@ -1,4 +1,5 @@
-import type { Annotation, StylePreset, StyleConfig } from '../types';
+import type { Annotation, Point, StylePreset, StyleConfig, CustomStylePreset } from '../types';
+import { getPointsCenter } from './annotationUtils';
 
 // Base prompt from SPEC
 const BASE_PROMPT = `Top-down, fully 3D isometric render of the entire floor plan. Create a clean, highly detailed miniature architectural maquette with accurate room proportions and layout, matching the reference exactly.
@@ -66,55 +67,278 @@ export const STYLE_CONFIGS: StyleConfig[] = [
   }
 ];
 
+// User-defined presets, kept in sync with IndexedDB by api/customStyles
+let customStyleConfigs: CustomStylePreset[] = [];
+// Presets deleted this session, so renders made with them keep label and prompt
+const retainedStyleConfigs = new Map<StylePreset, StyleConfig>();
+
+/**
+ * Replaces the user-defined presets that prompts can use
+ */
+export function setCustomStyleConfigs(presets: CustomStylePreset[]) {
+  customStyleConfigs
+    .filter(old => !presets.some(p => p.value === old.value))
+    .forEach(old => retainedStyleConfigs.set(old.value, old));
+  customStyleConfigs = presets;
+}
+
+/**
+ * Copy of a custom preset to store with a render; built-in presets need none
+ */
+export function getStyleSnapshot(style: StylePreset): StyleConfig | undefined {
+  const config = findStyleConfig(style);
+  if (!config || !style.startsWith('custom:')) return undefined;
+
+  const { value, label, description, promptSuffix } = config;
+  return { value, label, description, promptSuffix };
+}
+
+/**
+ * Finds the configuration for a preset, or undefined for a custom one that is gone
+ */
+function findStyleConfig(style: StylePreset): StyleConfig | undefined {
+  return STYLE_CONFIGS.find(s => s.value === style) ||
+    customStyleConfigs.find(s => s.value === style) ||
+    retainedStyleConfigs.get(style);
+}
+
 /**
- * Gets the style configuration for a given preset
+ * Gets the style configuration for a given preset. A custom preset that is gone
+ * is shown as missing, with no style in the prompt, rather than as another style.
  */
 export function getStyleConfig(style: StylePreset): StyleConfig {
-  return STYLE_CONFIGS.find(s => s.value === style) || STYLE_CONFIGS[0];
+  return findStyleConfig(style) || {
+    value: style,
+    label: 'Manglende stil',
+    description: 'Stilen er slettet',
+    promptSuffix: 'No specific style preset; keep furnishing neutral and realistic.'
+  };
 }
 
+// Label distances (0-100 units) for "at" and "near" a label
+const AT_LABEL_DISTANCE = 8;
+const NEAR_LABEL_DISTANCE = 20;
+
+type NamedLabel = { text: string; point: Point };
+
+// How a point relates to the room labels
+type LabelRelation =
+  | { kind: 'at' | 'near'; label: NamedLabel }
+  | { kind: 'between'; a: NamedLabel; b: NamedLabel };
+
 /**
- * Builds the complete prompt from annotations and style
+ * Describes where a point lies on the plan, e.g. "upper-left quadrant"
  */
-export function buildPrompt(annotations: Annotation[], style: StylePreset): string {
-  const styleConfig = getStyleConfig(style);
+export function describeLocation(p: Point): string {
+  const vertical = p.y < 33 ? 'upper' : p.y > 67 ? 'lower' : 'middle';
+  const horizontal = p.x < 33 ? 'left' : p.x > 67 ? 'right' : 'center';
 
-  let prompt = BASE_PROMPT;
+  if (vertical === 'middle' && horizontal === 'center') return 'center of the plan';
+  if (vertical === 'middle') return `middle of the ${horizontal} side`;
+  if (horizontal === 'center') return `${vertical === 'upper' ? 'top' : 'bottom'} center`;
+  return `${vertical}-${horizontal} quadrant`;
+}
 
-  // Add style suffix
-  prompt += `\n\nStyle: ${styleConfig.promptSuffix}`;
+/**
+ * Relates a point to the room labels: at, between or near them
+ */
+function relateToLabels(p: Point, labels: NamedLabel[]): LabelRelation | null {
+  if (labels.length === 0) return null;
+
+  const byDistance = labels
+    .map(label => ({ label, distance: Math.hypot(p.x - label.point.x, p.y - label.point.y) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  const nearest = byDistance[0];
+  if (nearest.distance < AT_LABEL_DISTANCE) {
+    return { kind: 'at', label: nearest.label };
+  }
+
+  // Between two labels: close to the segment joining them, away from its ends
+  let between: { a: NamedLabel; b: NamedLabel; offset: number } | null = null;
+  for (let i = 0; i < labels.length; i++) {
+    for (let j = i + 1; j < labels.length; j++) {
+      const a = labels[i].point;
+      const b = labels[j].point;
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length === 0) continue;
+
+      const t = ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (length * length);
+      const offset = Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+
+      if (t > 0.2 && t < 0.8 && offset < length * 0.25 && (!between || offset < between.offset)) {
+        between = { a: labels[i], b: labels[j], offset };
+      }
+    }
+  }
+
+  if (between) {
+    return { kind: 'between', a: between.a, b: between.b };
+  }
+
+  if (nearest.distance < NEAR_LABEL_DISTANCE) {
+    return { kind: 'near', label: nearest.label };
+  }
+
+  return null;
+}
+
+/**
+ * Phrases a label relation as a noun: "the Kitchen", "the area near the Balcony"
+ */
+function nameRelation(relation: LabelRelation): string {
+  switch (relation.kind) {
+    case 'at':
+      return `the ${relation.label.text}`;
+    case 'near':
+      return `the area near the ${relation.label.text}`;
+    case 'between':
+      return `the area between the ${relation.a.text} and the ${relation.b.text}`;
+  }
+}
+
+/**
+ * Phrases a label relation as a place: "in the Kitchen", "near the Balcony"
+ */
+function placeRelation(relation: LabelRelation): string {
+  switch (relation.kind) {
+    case 'at':
+      return `in the ${relation.label.text}`;
+    case 'near':
+      return `near the ${relation.label.text}`;
+    case 'between':
+      return `between the ${relation.a.text} and the ${relation.b.text}`;
+  }
+}
+
+/**
+ * Full location phrase for a point: quadrant plus any label context
+ */
+function describePlace(p: Point, labels: NamedLabel[]): string {
+  const relation = relateToLabels(p, labels);
+  const location = describeLocation(p);
+  if (!relation) return `in the ${location}`;
 
-  // Add room labels if any
-  const labels = annotations.filter(a => a.type === 'label' && a.text);
+  return `${placeRelation(relation)} (${location})`;
+}
+
+/**
+ * Names an arrow end by the room it is in, or by its position, as a noun phrase
+ * that reads after "from" and "toward"
+ */
+function describeEndpoint(p: Point, labels: NamedLabel[]): string {
+  const relation = relateToLabels(p, labels);
+  return relation ? nameRelation(relation) : `the ${describeLocation(p)}`;
+}
+
+/**
+ * Centre point of any annotation
+ */
+function getAnnotationCenter(a: Annotation): Point | null {
+  if (a.points && a.points.length > 1) return getPointsCenter(a.points);
+  if (a.x !== undefined && a.y !== undefined) return { x: a.x, y: a.y };
+  if (a.fromX !== undefined && a.fromY !== undefined && a.toX !== undefined && a.toY !== undefined) {
+    return { x: (a.fromX + a.toX) / 2, y: (a.fromY + a.toY) / 2 };
+  }
+  return null;
+}
+
+/**
+ * Rough share of the plan a region covers, from its bounding box
+ */
+function describeExtent(points: Point[]): string {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const area = (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+  const percent = Math.max(1, Math.round(area / 100));
+  return `about ${percent}% of the plan`;
+}
+
+/**
+ * Describes one keep/change region or marker with its location
+ */
+function describeRegion(a: Annotation, labels: NamedLabel[]): string {
+  const center = getAnnotationCenter(a);
+  const place = center ? describePlace(center, labels) : 'on the plan';
+  const extent = a.points && a.points.length >= 3 ? `, covering ${describeExtent(a.points)}` : '';
+  const note = a.text ? `: "${a.text}"` : '';
+  return `region ${place}${extent}${note}`;
+}
+
+/**
+ * Builds the annotation instructions appended to the prompt after the style.
+ * Coordinates are turned into location language the model can follow.
+ */
+export function buildAnnotationInstructions(annotations: Annotation[]): string {
+  const sections: string[] = [];
+
+  const labelAnnotations = annotations.filter(a => a.type === 'label' && a.text && a.x !== undefined && a.y !== undefined);
+  const labels: NamedLabel[] = labelAnnotations.map(a => ({ text: a.text!, point: { x: a.x!, y: a.y! } }));
+
+  // Room labels with where they are
   if (labels.length > 0) {
-    const roomList = labels.map(l => l.text).join(', ');
-    prompt += `\n\nRoom labels identified: ${roomList}. Furnish each room appropriately for its function.`;
+    const roomList = labels.map(l => `${l.text} (${describeLocation(l.point)})`).join(', ');
+    sections.push(`Room labels identified: ${roomList}. Furnish each room appropriately for its function.`);
   }
 
-  // Add keep markers
+  // Keep regions
   const keepAreas = annotations.filter(a => a.type === 'keep');
   if (keepAreas.length > 0) {
-    prompt += `\n\nAreas marked to KEEP AS-IS: Preserve the layout and features in ${keepAreas.length} marked region(s).`;
+    const regions = keepAreas.map(a => `- Keep the ${describeRegion(a, labels)}`).join('\n');
+    sections.push(`Areas marked to KEEP AS-IS - preserve the layout and features exactly:\n${regions}`);
   }
 
-  // Add change markers
+  // Change regions
   const changeAreas = annotations.filter(a => a.type === 'change');
   if (changeAreas.length > 0) {
-    const changeNotes = changeAreas
-      .filter(a => a.text)
-      .map(a => a.text)
-      .join('; ');
-    prompt += `\n\nAreas marked for CHANGE: Apply modifications to ${changeAreas.length} marked region(s).`;
-    if (changeNotes) {
-      prompt += ` Notes: ${changeNotes}`;
+    const regions = changeAreas.map(a => `- Change the ${describeRegion(a, labels)}`).join('\n');
+    sections.push(`Areas marked for CHANGE - apply modifications only here:\n${regions}`);
+  }
+
+  // Arrows and freehand marks
+  const notes: string[] = [];
+  annotations.forEach(a => {
+    if (a.type === 'arrow' && a.fromX !== undefined && a.fromY !== undefined &&
+        a.toX !== undefined && a.toY !== undefined) {
+      const from = describeEndpoint({ x: a.fromX, y: a.fromY }, labels);
+      const to = describeEndpoint({ x: a.toX, y: a.toY }, labels);
+      const arrow = `Arrow from ${from} pointing toward ${to}`;
+      notes.push(a.text ? `- ${arrow}: "${a.text}"` : `- ${arrow}`);
+    } else if (a.type === 'path' && a.points && a.points.length > 1) {
+      const mark = `Freehand mark ${describePlace(getPointsCenter(a.points), labels)}`;
+      notes.push(a.text ? `- ${mark}: "${a.text}"` : `- ${mark}`);
     }
+  });
+  if (notes.length > 0) {
+    sections.push(`User notes:\n${notes.join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+// Added to every variant after the first of a style
+const VARIANT_INSTRUCTION = 'Keep the layout and style, but choose different furniture, materials and color accents than a typical take on this style.';
+
+/**
+ * Builds the complete prompt from annotations and style
+ */
+export function buildPrompt(annotations: Annotation[], style: StylePreset, variant = 1): string {
+  const styleConfig = getStyleConfig(style);
+
+  let prompt = BASE_PROMPT;
+
+  // Add style suffix
+  prompt += `\n\nStyle: ${styleConfig.promptSuffix}`;
+
+  // Later variants of a style should not come back as the same picture
+  if (variant > 1) {
+    prompt += `\n\nVariation ${variant}: ${VARIANT_INSTRUCTION}`;
   }
 
-  // Add arrow annotations
-  const arrows = annotations.filter(a => a.type === 'arrow' && a.text);
-  if (arrows.length > 0) {
-    const arrowNotes = arrows.map(a => a.text).join('; ');
-    prompt += `\n\nUser notes: ${arrowNotes}`;
+  // Add annotations, with where they are on the plan
+  const instructions = buildAnnotationInstructions(annotations);
+  if (instructions) {
+    prompt += `\n\n${instructions}`;
   }
 
   return prompt;
@@ -154,6 +378,22 @@ OUTPUT REQUIREMENTS:
 4. Minimal change - 95%+ of the image stays identical`;
 }
 
+/**
+ * Builds the prompt for repainting a single room crop
+ */
+export function buildRoomInpaintPrompt(roomLabel: string, request: string, style: StylePreset): string {
+  const styleConfig = getStyleConfig(style);
+
+  return `Repaint only the masked area of this crop from an isometric apartment render. The masked area is the ${roomLabel.toLowerCase()}.
+
+USER'S REQUEST:
+${request}
+
+STYLE: ${styleConfig.promptSuffix}
+
+Keep the camera angle, lighting, wall positions and scale of the surrounding render so the edit blends in seamlessly.`;
+}
+
 /**
  * Extracts annotation descriptions for AI context
  */
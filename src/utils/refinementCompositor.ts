@@ -0,0 +1,169 @@
+import type { Annotation, Point } from '../types';
+import { createCanvas, loadImage } from './fileUtils';
+
+// Working width for estimating the shift between two renders
+const ALIGN_WIDTH = 160;
+// Largest shift searched, in working pixels (about 4% of the width)
+const MAX_SHIFT = 6;
+// Mean channel difference (0-255) above which a pixel counts as changed
+const CHANGE_THRESHOLD = 24;
+
+// How much of a refinement differs from the render it was made from
+export interface ChangeHeatmap {
+  image: string; // Transparent PNG overlay, same size as the renders
+  changed: number; // Fraction of pixels changed, 0-1
+}
+
+/**
+ * Grayscale pixels of an image drawn at the given size
+ */
+function getGray(img: HTMLImageElement, width: number, height: number): Float32Array {
+  const [, ctx] = createCanvas(width, height, { willReadFrequently: true });
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return gray;
+}
+
+/**
+ * Finds the translation of `next` that best matches `previous`, by brute-force
+ * search of the mean absolute difference on small grayscale copies.
+ * Returns the shift in pixels of the full-size previous render.
+ */
+function estimateShift(previous: HTMLImageElement, next: HTMLImageElement): Point {
+  const width = ALIGN_WIDTH;
+  const height = Math.max(1, Math.round((previous.height / previous.width) * ALIGN_WIDTH));
+  const a = getGray(previous, width, height);
+  const b = getGray(next, width, height);
+
+  let best = { x: 0, y: 0, score: Infinity };
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      let sum = 0;
+      let count = 0;
+      for (let y = Math.max(0, dy); y < Math.min(height, height + dy); y++) {
+        for (let x = Math.max(0, dx); x < Math.min(width, width + dx); x++) {
+          sum += Math.abs(a[y * width + x] - b[(y - dy) * width + (x - dx)]);
+          count++;
+        }
+      }
+      // Small bias towards no shift so flat images stay put
+      const score = sum / count + Math.hypot(dx, dy) * 0.05;
+      if (score < best.score) best = { x: dx, y: dy, score };
+    }
+  }
+
+  const scale = previous.width / width;
+  return { x: Math.round(best.x * scale), y: Math.round(best.y * scale) };
+}
+
+/**
+ * Closed keep/change regions drawn on the render (point markers have no area)
+ */
+function getRegions(marks: Annotation[], type: 'keep' | 'change'): Point[][] {
+  return marks
+    .filter(a => a.type === type && a.points && a.points.length >= 3)
+    .map(a => a.points!);
+}
+
+/**
+ * Fills a 0-100 percentage polygon scaled to the canvas
+ */
+function fillRegion(ctx: CanvasRenderingContext2D, points: Point[]) {
+  const { width, height } = ctx.canvas;
+  ctx.beginPath();
+  points.forEach((p, i) => {
+    const x = (p.x / 100) * width;
+    const y = (p.y / 100) * height;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Post-processes a refinement: aligns it to the render it was made from, then
+ * restores the previous pixels inside keep regions and outside change regions,
+ * blended over soft edges. Without any regions the aligned render is returned.
+ */
+export async function protectKeepRegions(previousUrl: string, nextUrl: string, marks: Annotation[]): Promise<string> {
+  const [previous, next] = await Promise.all([loadImage(previousUrl, 'comparison'), loadImage(nextUrl, 'comparison')]);
+  const { width, height } = previous;
+  const shift = estimateShift(previous, next);
+
+  // Aligned render over the previous one, so a shift leaves no empty border
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(previous, 0, 0);
+  ctx.drawImage(next, shift.x, shift.y, width, height);
+
+  const keep = getRegions(marks, 'keep');
+  const change = getRegions(marks, 'change');
+  if (keep.length === 0 && change.length === 0) {
+    return canvas.toDataURL('image/png');
+  }
+
+  // Hard mask of what to take from the previous render
+  const [mask, maskCtx] = createCanvas(width, height);
+  maskCtx.fillStyle = '#ffffff';
+  if (change.length > 0) {
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.globalCompositeOperation = 'destination-out';
+    change.forEach(points => fillRegion(maskCtx, points));
+    maskCtx.globalCompositeOperation = 'source-over';
+  }
+  // Keep wins where a keep region overlaps a change region
+  keep.forEach(points => fillRegion(maskCtx, points));
+
+  // Soften the edges, then cut the previous render out with the mask
+  const feather = Math.max(4, Math.min(width, height) * 0.01);
+  const [layer, layerCtx] = createCanvas(width, height);
+  layerCtx.filter = `blur(${feather}px)`;
+  layerCtx.drawImage(mask, 0, 0);
+  layerCtx.filter = 'none';
+  layerCtx.globalCompositeOperation = 'source-in';
+  layerCtx.drawImage(previous, 0, 0);
+
+  ctx.drawImage(layer, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Builds a heatmap of where two renders differ: transparent where they match,
+ * yellow to red as the difference grows
+ */
+export async function computeChangeHeatmap(previousUrl: string, nextUrl: string): Promise<ChangeHeatmap> {
+  const [previous, next] = await Promise.all([loadImage(previousUrl, 'comparison'), loadImage(nextUrl, 'comparison')]);
+  const { width, height } = previous;
+
+  const [, aCtx] = createCanvas(width, height, { willReadFrequently: true });
+  aCtx.drawImage(previous, 0, 0);
+  const a = aCtx.getImageData(0, 0, width, height).data;
+
+  const [, bCtx] = createCanvas(width, height, { willReadFrequently: true });
+  bCtx.drawImage(next, 0, 0, width, height);
+  const b = bCtx.getImageData(0, 0, width, height).data;
+
+  const [canvas, ctx] = createCanvas(width, height);
+  const heat = ctx.createImageData(width, height);
+  let changed = 0;
+
+  for (let i = 0; i < a.length; i += 4) {
+    const diff = (Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2])) / 3;
+    if (diff < CHANGE_THRESHOLD) continue;
+
+    changed++;
+    const t = Math.min(1, (diff - CHANGE_THRESHOLD) / 128);
+    heat.data[i] = 255;
+    heat.data[i + 1] = Math.round(220 * (1 - t));
+    heat.data[i + 2] = 0;
+    heat.data[i + 3] = Math.round(110 + 145 * t);
+  }
+
+  ctx.putImageData(heat, 0, 0);
+  return { image: canvas.toDataURL('image/png'), changed: changed / (width * height) };
+}
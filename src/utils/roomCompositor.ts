@@ -0,0 +1,144 @@
+import type { DetectedRoom, Rect } from '../types';
+import { createCanvas, loadImage } from './fileUtils';
+
+// Context around the room sent with the crop, in image pixels
+const MIN_PADDING_PX = 24;
+
+// A padded crop around one room, with its mask
+export interface RoomCrop {
+  image: string; // data URL
+  mask: string; // data URL, white inside the room
+  rect: Rect; // Crop position in the full image, in pixels
+}
+
+/**
+ * Crop rectangle around a room: its bbox plus padding, clamped to the image.
+ * Padding is at least the feather width so the soft edge fits inside the crop.
+ */
+export function getRoomCropRect(room: DetectedRoom, width: number, height: number): Rect {
+  const padding = Math.max(MIN_PADDING_PX, room.featherPx * 2);
+  const left = Math.max(0, Math.floor((room.bbox.x / 100) * width - padding));
+  const top = Math.max(0, Math.floor((room.bbox.y / 100) * height - padding));
+  const right = Math.min(width, Math.ceil(((room.bbox.x + room.bbox.w) / 100) * width + padding));
+  const bottom = Math.min(height, Math.ceil(((room.bbox.y + room.bbox.h) / 100) * height + padding));
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Turns a detector mask (opaque, white inside the room) into white with the
+ * mask's luminance as alpha, cropped to the rectangle
+ */
+async function loadMaskAlpha(maskUrl: string, rect: Rect, width: number, height: number): Promise<HTMLCanvasElement> {
+  const mask = await loadImage(maskUrl, 'room compositing');
+  const [canvas, ctx] = createCanvas(rect.width, rect.height);
+  ctx.drawImage(mask, -rect.x, -rect.y, width, height);
+
+  const pixels = ctx.getImageData(0, 0, rect.width, rect.height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    // Masks are grayscale, so red is the luminance; transparent pixels stay out
+    data[i + 3] = Math.round((data[i] * data[i + 3]) / 255);
+    data[i] = data[i + 1] = data[i + 2] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return canvas;
+}
+
+/**
+ * Draws the room mask (detector mask if there is one, else the polygon) in
+ * white, offset so the crop rectangle starts at 0,0. Only the alpha channel
+ * marks the room, so it can drive source-in compositing.
+ */
+async function drawRoomMask(
+  ctx: CanvasRenderingContext2D,
+  room: DetectedRoom,
+  rect: Rect,
+  width: number,
+  height: number
+) {
+  if (room.maskUrl) {
+    ctx.drawImage(await loadMaskAlpha(room.maskUrl, rect, width, height), 0, 0);
+    return;
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.beginPath();
+  room.polygon.forEach((p, i) => {
+    const x = (p.x / 100) * width - rect.x;
+    const y = (p.y / 100) * height - rect.y;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  });
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Crops the padded region around a room and builds its binary mask
+ */
+export async function cropRoom(dataUrl: string, room: DetectedRoom): Promise<RoomCrop> {
+  const img = await loadImage(dataUrl, 'room compositing');
+  const rect = getRoomCropRect(room, img.width, img.height);
+
+  const [imageCanvas, imageCtx] = createCanvas(rect.width, rect.height);
+  imageCtx.drawImage(img, -rect.x, -rect.y);
+
+  const [maskCanvas, maskCtx] = createCanvas(rect.width, rect.height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(0, 0, rect.width, rect.height);
+  await drawRoomMask(maskCtx, room, rect, img.width, img.height);
+
+  return {
+    image: imageCanvas.toDataURL('image/png'),
+    mask: maskCanvas.toDataURL('image/png'),
+    rect
+  };
+}
+
+/**
+ * Blends a patch back into the image inside the room only, with edges
+ * feathered over `featherPx`. The patch is scaled to the crop rectangle, so
+ * providers may return it at a different resolution.
+ */
+export async function compositeRoom(
+  dataUrl: string,
+  patchUrl: string,
+  room: DetectedRoom,
+  rect: Rect
+): Promise<string> {
+  const [img, patch] = await Promise.all([loadImage(dataUrl, 'room compositing'), loadImage(patchUrl, 'room compositing')]);
+
+  // Soft mask: the room shape blurred by the feather width
+  const [layer, layerCtx] = createCanvas(rect.width, rect.height);
+  if (room.featherPx > 0) {
+    layerCtx.filter = `blur(${room.featherPx / 2}px)`;
+  }
+  await drawRoomMask(layerCtx, room, rect, img.width, img.height);
+  layerCtx.filter = 'none';
+
+  // Keep the patch only where the mask is
+  layerCtx.globalCompositeOperation = 'source-in';
+  layerCtx.drawImage(patch, 0, 0, rect.width, rect.height);
+
+  const [canvas, ctx] = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  ctx.drawImage(layer, rect.x, rect.y);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Pastes a crop back at its rectangle as is, e.g. to undo an edit exactly
+ */
+export async function pasteCrop(dataUrl: string, cropUrl: string, rect: Rect): Promise<string> {
+  const [img, crop] = await Promise.all([loadImage(dataUrl, 'room compositing'), loadImage(cropUrl, 'room compositing')]);
+
+  const [canvas, ctx] = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  ctx.clearRect(rect.x, rect.y, rect.width, rect.height);
+  ctx.drawImage(crop, rect.x, rect.y, rect.width, rect.height);
+
+  return canvas.toDataURL('image/png');
+}
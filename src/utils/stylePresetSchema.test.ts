@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import type { CustomStylePreset } from '../types';
+import {
+  STYLE_PRESET_FORMAT,
+  MAX_LABEL_LENGTH,
+  parseStylePresetDocument,
+  serializeStylePresets,
+  validateStylePresetInput
+} from './stylePresetSchema';
+
+const loft: CustomStylePreset = {
+  value: 'custom:loft-1',
+  label: 'Loft',
+  description: 'Brick and steel',
+  promptSuffix: 'Brick loft style.',
+  createdAt: 1,
+  updatedAt: 2
+};
+
+/**
+ * Version 1 document with the given presets
+ */
+function doc(presets: unknown[]): string {
+  return JSON.stringify({ format: STYLE_PRESET_FORMAT, version: 1, presets });
+}
+
+describe('parseStylePresetDocument', () => {
+  it('reads back what it serializes', () => {
+    expect(parseStylePresetDocument(serializeStylePresets([loft]))).toEqual([loft]);
+  });
+
+  it('trims fields and drops unknown ones', () => {
+    const [preset] = parseStylePresetDocument(doc([{ ...loft, label: '  Loft ', extra: true }]));
+
+    expect(preset.label).toBe('Loft');
+    expect(preset).not.toHaveProperty('extra');
+    expect(preset).not.toHaveProperty('swatch');
+  });
+
+  it('rejects files that are not style preset documents', () => {
+    expect(() => parseStylePresetDocument('not json')).toThrow('Filen er ikke gyldig JSON');
+    expect(() => parseStylePresetDocument(JSON.stringify([loft]))).toThrow('Filen inneholder ikke stiler');
+    expect(() => parseStylePresetDocument(JSON.stringify({ format: STYLE_PRESET_FORMAT, version: 1 })))
+      .toThrow('Filen inneholder ikke stiler');
+  });
+
+  it('rejects unknown and newer versions', () => {
+    const versioned = (version: unknown) => JSON.stringify({ format: STYLE_PRESET_FORMAT, version, presets: [] });
+
+    expect(() => parseStylePresetDocument(versioned(0))).toThrow('Ukjent versjon av stilfilen');
+    expect(() => parseStylePresetDocument(versioned(2))).toThrow('nyere versjon');
+  });
+
+  it('names the first malformed preset and why', () => {
+    expect(() => parseStylePresetDocument(doc([loft, { ...loft, value: 'modern' }]))).toThrow('Stil 2 er ugyldig');
+    expect(() => parseStylePresetDocument(doc([{ ...loft, promptSuffix: '  ' }])))
+      .toThrow('Stil 1 er ugyldig: stilen må ha et prompt-tillegg');
+    expect(() => parseStylePresetDocument(doc([{ ...loft, swatch: 'https://example.com/a.png' }])))
+      .toThrow('Stil 1 er ugyldig: fargeprøven må være et bilde');
+  });
+});
+
+describe('validateStylePresetInput', () => {
+  it('limits the label length', () => {
+    const input = { label: 'x'.repeat(MAX_LABEL_LENGTH + 1), description: '', promptSuffix: 'Style.' };
+    expect(validateStylePresetInput(input)).toBe(`Navnet kan være maks ${MAX_LABEL_LENGTH} tegn`);
+    expect(validateStylePresetInput({ ...input, label: 'Loft' })).toBeNull();
+  });
+});
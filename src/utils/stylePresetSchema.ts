@@ -0,0 +1,125 @@
+import type { CustomStylePreset } from '../types';
+import { isJsonObject } from './json';
+
+// Identifies an exported style preset file
+export const STYLE_PRESET_FORMAT = 'beautiful-room-style-presets';
+
+/**
+ * Version history of the export format:
+ * 1 - { format, version, exportedAt, presets }
+ */
+export const STYLE_PRESET_SCHEMA_VERSION = 1;
+
+export interface StylePresetDocument {
+  format: typeof STYLE_PRESET_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: CustomStylePreset[];
+}
+
+// Editable fields of a preset
+export interface StylePresetInput {
+  label: string;
+  description: string;
+  promptSuffix: string;
+  swatch?: string;
+}
+
+// Limits that keep presets readable in the selector and the prompt
+export const MAX_LABEL_LENGTH = 40;
+export const MAX_DESCRIPTION_LENGTH = 120;
+export const MAX_PROMPT_SUFFIX_LENGTH = 1000;
+
+/**
+ * Checks the editable fields, returning an error message or null
+ */
+export function validateStylePresetInput(input: StylePresetInput): string | null {
+  if (!input.label.trim()) return 'Stilen må ha et navn';
+  if (input.label.trim().length > MAX_LABEL_LENGTH) return `Navnet kan være maks ${MAX_LABEL_LENGTH} tegn`;
+  if (input.description.trim().length > MAX_DESCRIPTION_LENGTH) {
+    return `Beskrivelsen kan være maks ${MAX_DESCRIPTION_LENGTH} tegn`;
+  }
+  if (!input.promptSuffix.trim()) return 'Stilen må ha et prompt-tillegg';
+  if (input.promptSuffix.trim().length > MAX_PROMPT_SUFFIX_LENGTH) {
+    return `Prompt-tillegget kan være maks ${MAX_PROMPT_SUFFIX_LENGTH} tegn`;
+  }
+  if (input.swatch !== undefined && !input.swatch.startsWith('data:image/')) return 'Fargeprøven må være et bilde';
+  return null;
+}
+
+/**
+ * Serializes presets as a versioned JSON document
+ */
+export function serializeStylePresets(presets: CustomStylePreset[]): string {
+  const doc: StylePresetDocument = {
+    format: STYLE_PRESET_FORMAT,
+    version: STYLE_PRESET_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets
+  };
+  return JSON.stringify(doc, null, 2);
+}
+
+/**
+ * Parses an exported document into presets, keeping only known fields
+ */
+export function parseStylePresetDocument(json: string): CustomStylePreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Filen er ikke gyldig JSON');
+  }
+
+  if (!isJsonObject(data) || data.format !== STYLE_PRESET_FORMAT) {
+    throw new Error('Filen inneholder ikke stiler');
+  }
+
+  const doc = data;
+  const version = Number(doc.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Ukjent versjon av stilfilen');
+  }
+  if (version > STYLE_PRESET_SCHEMA_VERSION) {
+    throw new Error('Stilfilen er laget av en nyere versjon av appen');
+  }
+  if (!Array.isArray(doc.presets)) {
+    throw new Error('Filen inneholder ikke stiler');
+  }
+
+  return (doc.presets as unknown[]).map(validatePreset);
+}
+
+/**
+ * Checks one preset from a file against the current schema
+ */
+function validatePreset(value: unknown, index: number): CustomStylePreset {
+  const invalid = (reason?: string) => new Error(`Stil ${index + 1} er ugyldig${reason ? `: ${reason}` : ''}`);
+
+  if (!isJsonObject(value)) throw invalid();
+  const p = value;
+
+  if (typeof p.value !== 'string' || !/^custom:[\w-]+$/.test(p.value)) throw invalid();
+  if (typeof p.label !== 'string' || typeof p.promptSuffix !== 'string') throw invalid();
+  if (p.description !== undefined && typeof p.description !== 'string') throw invalid();
+  if (p.swatch !== undefined && typeof p.swatch !== 'string') throw invalid();
+
+  const input: StylePresetInput = {
+    label: p.label.trim(),
+    description: (p.description ?? '').trim(),
+    promptSuffix: p.promptSuffix.trim(),
+    swatch: p.swatch
+  };
+  const error = validateStylePresetInput(input);
+  if (error) throw invalid(error.toLowerCase());
+
+  const now = Date.now();
+  const preset: CustomStylePreset = {
+    value: p.value as CustomStylePreset['value'],
+    ...input,
+    createdAt: typeof p.createdAt === 'number' && Number.isFinite(p.createdAt) ? p.createdAt : now,
+    updatedAt: typeof p.updatedAt === 'number' && Number.isFinite(p.updatedAt) ? p.updatedAt : now
+  };
+  if (preset.swatch === undefined) delete preset.swatch;
+  return preset;
+}
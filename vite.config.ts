@@ -1,12 +1,80 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { existsSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { resolve, sep } from 'node:path';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import solidPlugin from 'vite-plugin-solid';
 
+/**
+ * Reads a JSON request body, or undefined when there is none
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Serves the Vercel functions in api/ from the dev server, so local
+ * development goes through the same endpoints (and job store) as production
+ */
+function vercelApiRoutes(): Plugin {
+  return {
+    name: 'vercel-api-routes',
+    apply: 'serve',
+    configureServer(server) {
+      const apiDir = resolve(server.config.root, 'api');
+
+      // Functions read unprefixed variables such as OPENROUTER_API_KEY; the shell wins over .env
+      const env = loadEnv(server.config.mode, server.config.root, '');
+      for (const [key, value] of Object.entries(env)) {
+        if (process.env[key] === undefined) process.env[key] = value;
+      }
+
+      server.middlewares.use('/api', async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const file = resolve(apiDir, `.${url.pathname}.js`);
+        if (!file.startsWith(apiDir + sep) || !existsSync(file)) return next();
+
+        // The subset of Vercel's request/response helpers the functions use
+        const json = (status: number, data: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(data));
+        };
+
+        try {
+          const { default: handler } = await server.ssrLoadModule(file);
+          const body = req.method === 'GET' ? undefined : await readJsonBody(req);
+          const vercelRes = Object.assign(res, {
+            status: (code: number) => {
+              res.statusCode = code;
+              return vercelRes;
+            },
+            json: (data: unknown) => json(res.statusCode, data)
+          });
+
+          await handler(Object.assign(req, { query: Object.fromEntries(url.searchParams), body }), vercelRes);
+        } catch (err) {
+          server.config.logger.error(`api${url.pathname} failed: ${err instanceof Error ? err.stack : err}`);
+          if (!res.headersSent) json(500, { error: err instanceof Error ? err.message : 'Internal server error' });
+        }
+      });
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [solidPlugin()],
+  plugins: [solidPlugin(), vercelApiRoutes()],
   server: {
     port: 3001,
   },
   build: {
     target: 'esnext',
   },
+  test: {
+    // Tests cover pure parsing and geometry; no DOM needed
+    environment: 'node',
+  },
 });